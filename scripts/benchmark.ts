@@ -0,0 +1,123 @@
+// Runs the full analysis over labelled snapshots or recordings and prints a diffable report.
+// Usage: npm run benchmark -- <fixture file or directory>... [--out report.md] [--threshold 50]
+import { writeFile } from 'node:fs/promises'
+import type { RepoAnalysis } from '../src/lib/types'
+import { brierScore, confusionMatrix, logLoss, mean, quantile, rocAuc, round, type Prediction } from './metrics'
+import { analyzeTarget, loadFixtures, type Fixture } from './fixtures'
+
+interface BenchmarkResult {
+  fixture: Fixture
+  analysis: RepoAnalysis
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
+  const paths = args.filter((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'))
+  const out = flag(args, 'out')
+  const threshold = Number(flag(args, 'threshold') ?? 50)
+  if (paths.length === 0) {
+    console.error('Usage: npm run benchmark -- <fixture file or directory>... [--out report.md] [--threshold 50]')
+    process.exit(1)
+  }
+
+  const fixtures = (await Promise.all(paths.map(loadFixtures))).flat().sort((a, b) => a.id.localeCompare(b.id))
+  const results: BenchmarkResult[] = []
+  for (const fixture of fixtures) {
+    const analysis = await analyzeTarget(fixture.source, fixture.target, fixture.settings)
+    // A score built on requests the fixture cannot answer says nothing about the current sampler; re-record it.
+    if (fixture.misses.length > 0) {
+      console.error(`${fixture.id}: failed, ${fixture.misses.length} request(s) not in the fixture, first ${fixture.misses[0]}`)
+      process.exitCode = 1
+      continue
+    }
+    results.push({ fixture, analysis })
+  }
+
+  const report = renderReport(results, threshold)
+  if (out) {
+    await writeFile(out, report)
+    console.log(`Wrote ${results.length} fixture(s) to ${out}`)
+  } else {
+    process.stdout.write(report)
+  }
+}
+
+// Only inputs and scores go into the report, so two runs over the same fixtures diff cleanly.
+function renderReport(results: BenchmarkResult[], threshold: number): string {
+  const predictions: Prediction[] = results.map(({ fixture, analysis }) => ({
+    probability: analysis.slopScore / 100,
+    label: fixture.label === 'ai' ? 1 : 0,
+  }))
+  const matrix = confusionMatrix(predictions, threshold / 100)
+  const precision = matrix.tp + matrix.fp > 0 ? matrix.tp / (matrix.tp + matrix.fp) : 0
+  const recall = matrix.tp + matrix.fn > 0 ? matrix.tp / (matrix.tp + matrix.fn) : 0
+  const positives = predictions.filter((prediction) => prediction.label === 1).length
+  const diagnostics = results[0]?.analysis.diagnostics
+
+  const lines = [
+    '# Benchmark report',
+    '',
+    `- model: ${diagnostics?.modelVersion ?? 'n/a'}`,
+    `- rules: ${diagnostics?.ruleCatalogVersion ?? 'n/a'}`,
+    `- detectors: ${Object.entries(diagnostics?.detectorVersions ?? {}).map(([id, version]) => `${id}@${version}`).join(' ')}`,
+    `- fixtures: ${results.length} (${positives} ai / ${results.length - positives} human)`,
+    `- threshold: ${threshold}`,
+    '',
+    '## Classification',
+    '',
+    '| metric | value |',
+    '| --- | --- |',
+    `| precision | ${fixed(precision)} |`,
+    `| recall | ${fixed(recall)} |`,
+    `| roc-auc | ${fixed(rocAuc(predictions))} |`,
+    `| brier | ${fixed(brierScore(predictions))} |`,
+    `| log loss | ${fixed(logLoss(predictions))} |`,
+    `| tp / fp / tn / fn | ${matrix.tp} / ${matrix.fp} / ${matrix.tn} / ${matrix.fn} |`,
+    '',
+    '## Fixtures',
+    '',
+    '| fixture | label | score | confidence | flagged |',
+    '| --- | --- | --- | --- | --- |',
+    ...results.map(({ fixture, analysis }) => {
+      const flagged = analysis.slopScore >= threshold
+      const verdict = flagged === (fixture.label === 'ai') ? (flagged ? 'yes' : 'no') : (flagged ? 'yes (false positive)' : 'no (missed)')
+      return `| ${fixture.id} | ${fixture.label} | ${analysis.slopScore} | ${analysis.confidence} | ${verdict} |`
+    }),
+    '',
+    '## Features',
+    '',
+    '| feature | ai mean | ai p50 | ai p90 | human mean | human p50 | human p90 | auc |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...featureNames(results).map((feature) => {
+      const values = (label: Fixture['label']) =>
+        results.filter(({ fixture }) => fixture.label === label).map(({ analysis }) => analysis.diagnostics.featureValues[feature] ?? 0)
+      const ai = values('ai')
+      const human = values('human')
+      const auc = rocAuc(results.map(({ fixture, analysis }) => ({
+        probability: analysis.diagnostics.featureValues[feature] ?? 0,
+        label: fixture.label === 'ai' ? 1 : 0,
+      })))
+      return `| ${feature} | ${fixed(mean(ai))} | ${fixed(quantile(ai, 0.5))} | ${fixed(quantile(ai, 0.9))} | ${fixed(mean(human))} | ${fixed(quantile(human, 0.5))} | ${fixed(quantile(human, 0.9))} | ${fixed(auc)} |`
+    }),
+    '',
+  ]
+  return lines.join('\n')
+}
+
+function featureNames(results: BenchmarkResult[]): string[] {
+  return [...new Set(results.flatMap(({ analysis }) => Object.keys(analysis.diagnostics.featureValues)))].sort()
+}
+
+function fixed(value: number): string {
+  return round(value).toFixed(3)
+}
+
+function flag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,172 @@
+// Refits the scoring model against labelled fixtures and reports calibration.
+// Usage: npm run fit-model -- <fixture file or directory>... [--write] [--version x.y.z] [--folds 5] [--l2 0.01]
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { DEFAULT_MODEL, predictLikelihood, type ScoringModel } from '../src/lib/model'
+import { brierScore, calibrationCurve, expectedCalibrationError, logLoss, round, type Prediction } from './metrics'
+
+interface LabelledSample {
+  id: string
+  label: 'ai' | 'human'
+  inputs: Record<string, number>
+}
+
+const MODEL_PATH = resolve(process.cwd(), 'src/lib/model.json')
+const ITERATIONS = 4000
+const LEARNING_RATE = 0.5
+
+async function main(): Promise<void> {
+  const { paths, flags } = parseArgs(process.argv.slice(2))
+  if (paths.length === 0) {
+    console.error('Usage: npm run fit-model -- <fixture file or directory>... [--write] [--version x.y.z] [--folds 5] [--l2 0.01]')
+    process.exit(1)
+  }
+
+  const samples = (await Promise.all(paths.map(loadSamples))).flat().sort((a, b) => a.id.localeCompare(b.id))
+  const positives = samples.filter((sample) => sample.label === 'ai').length
+  if (positives === 0 || positives === samples.length) {
+    console.error(`Need both ai and human fixtures; got ${positives} ai of ${samples.length}`)
+    process.exit(1)
+  }
+
+  const folds = Math.max(2, Math.min(Number(flags.folds ?? 5), samples.length))
+  const l2 = Number(flags.l2 ?? 0.01)
+
+  // Out-of-fold predictions keep the calibration curve honest about unseen repositories.
+  const crossValidated: Prediction[] = []
+  for (let fold = 0; fold < folds; fold++) {
+    const training = samples.filter((_, index) => index % folds !== fold)
+    const model = fitModel(DEFAULT_MODEL, training, l2)
+    samples
+      .filter((_, index) => index % folds === fold)
+      .forEach((sample) => crossValidated.push(predict(model, sample)))
+  }
+
+  const fitted: ScoringModel = {
+    ...fitModel(DEFAULT_MODEL, samples, l2),
+    modelVersion: flags.version ?? bumpVersion(DEFAULT_MODEL.modelVersion),
+    description: `Logistic model fitted on ${samples.length} labelled fixtures (${folds}-fold calibration).`,
+    fittedOn: { fixtures: samples.length, positives, date: new Date().toISOString().slice(0, 10) },
+    calibration: calibrationCurve(crossValidated),
+  }
+
+  printReport(samples, samples.map((sample) => predict(DEFAULT_MODEL, sample)), crossValidated, fitted, folds)
+
+  if (flags.write !== undefined) {
+    await writeFile(MODEL_PATH, `${JSON.stringify(fitted, null, 2)}\n`)
+    console.log(`\nWrote ${fitted.modelVersion} to ${MODEL_PATH}`)
+  }
+}
+
+// Batch gradient descent on L2-regularised log loss, starting from the current coefficients.
+function fitModel(start: ScoringModel, samples: LabelledSample[], l2: number): ScoringModel {
+  const features = Object.keys(start.coefficients)
+  let intercept = start.intercept
+  const weights = features.map((feature) => start.coefficients[feature])
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let interceptGradient = 0
+    const gradients = features.map(() => 0)
+    for (const sample of samples) {
+      const x = features.map((feature) => sample.inputs[feature] ?? 0)
+      const logit = intercept + x.reduce((sum, value, index) => sum + value * weights[index], 0)
+      const error = 1 / (1 + Math.exp(-logit)) - (sample.label === 'ai' ? 1 : 0)
+      interceptGradient += error
+      x.forEach((value, index) => { gradients[index] += error * value })
+    }
+    intercept -= (LEARNING_RATE * interceptGradient) / samples.length
+    weights.forEach((weight, index) => {
+      weights[index] = weight - LEARNING_RATE * (gradients[index] / samples.length + l2 * weight)
+    })
+  }
+
+  return {
+    ...start,
+    intercept: round(intercept),
+    coefficients: Object.fromEntries(features.map((feature, index) => [feature, round(weights[index])])),
+  }
+}
+
+function predict(model: ScoringModel, sample: LabelledSample): Prediction {
+  return { probability: predictLikelihood(model, sample.inputs).probability, label: sample.label === 'ai' ? 1 : 0 }
+}
+
+function printReport(
+  samples: LabelledSample[],
+  current: Prediction[],
+  crossValidated: Prediction[],
+  fitted: ScoringModel,
+  folds: number
+): void {
+  const positives = samples.filter((sample) => sample.label === 'ai').length
+  console.log(`${DEFAULT_MODEL.modelVersion} -> ${fitted.modelVersion} on ${samples.length} fixtures (${positives} ai / ${samples.length - positives} human)\n`)
+
+  console.log(pad('', 22) + pad('log loss', 10) + pad('brier', 10) + 'ece')
+  for (const [name, predictions] of [[`current`, current], [`refit (${folds}-fold)`, crossValidated]] as const) {
+    console.log(
+      pad(name, 22) +
+      pad(round(logLoss(predictions)).toFixed(3), 10) +
+      pad(round(brierScore(predictions)).toFixed(3), 10) +
+      round(expectedCalibrationError(calibrationCurve(predictions))).toFixed(3)
+    )
+  }
+
+  for (const [name, bins] of [['current', calibrationCurve(current)], [`refit (${folds}-fold)`, fitted.calibration]] as const) {
+    console.log(`\ncalibration, ${name}`)
+    console.log(pad('bucket', 12) + pad('n', 6) + pad('predicted', 12) + 'observed')
+    for (const bin of bins) {
+      console.log(pad(`<= ${bin.upTo.toFixed(1)}`, 12) + pad(String(bin.count), 6) + pad(bin.predicted.toFixed(2), 12) + bin.observed.toFixed(2))
+    }
+  }
+
+  console.log('\ncoefficients')
+  console.log(pad('intercept', 28) + pad(DEFAULT_MODEL.intercept.toFixed(2), 8) + fitted.intercept.toFixed(2))
+  for (const [feature, coefficient] of Object.entries(fitted.coefficients)) {
+    console.log(pad(feature, 28) + pad(DEFAULT_MODEL.coefficients[feature].toFixed(2), 8) + coefficient.toFixed(2))
+  }
+}
+
+// A fixture file holds one sample, an array of samples, or an exported analysis with a `label` added.
+async function loadSamples(path: string): Promise<LabelledSample[]> {
+  if ((await stat(path)).isDirectory()) {
+    const entries = (await readdir(path)).filter((entry) => entry.endsWith('.json')).sort()
+    return (await Promise.all(entries.map((entry) => loadSamples(join(path, entry))))).flat()
+  }
+
+  const data = JSON.parse(await readFile(path, 'utf8')) as unknown
+  const records = (Array.isArray(data) ? data : [data]) as Array<Record<string, unknown>>
+  return records.map((record, index) => {
+    const diagnostics = record.diagnostics as { modelInputs?: Record<string, number> } | undefined
+    const inputs = (record.inputs as Record<string, number> | undefined) ?? diagnostics?.modelInputs
+    const id = String(record.id ?? record.repoId ?? `${path}#${index}`)
+    if (record.label !== 'ai' && record.label !== 'human') throw new Error(`${id}: label must be "ai" or "human"`)
+    if (!inputs) throw new Error(`${id}: no model inputs; rescan with a build that records diagnostics.modelInputs`)
+    return { id, label: record.label, inputs }
+  })
+}
+
+function parseArgs(args: string[]): { paths: string[]; flags: Record<string, string | undefined> } {
+  const paths: string[] = []
+  const flags: Record<string, string | undefined> = {}
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    if (arg === '--write') flags.write = ''
+    else if (arg.startsWith('--')) flags[arg.slice(2)] = args[++index]
+    else paths.push(arg)
+  }
+  return { paths, flags }
+}
+
+function bumpVersion(version: string): string {
+  const [major, minor] = version.split(/[.-]/).map(Number)
+  return `${major}.${(minor || 0) + 1}.0`
+}
+
+function pad(value: string, width: number): string {
+  return value.padEnd(width)
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
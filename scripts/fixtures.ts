@@ -0,0 +1,98 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import { basename, join } from 'node:path'
+import { parseRecording, replaySource, type Recording, type RepoDataSource } from '../src/lib/dataSource'
+import { GitHubApiError } from '../src/lib/github'
+import { analyzePullRequest, analyzeRepository, type PipelineRepo } from '../src/lib/pipeline'
+import { buildRuleCatalog } from '../src/lib/rules'
+import type { CommitHistory, FileNode, GitHubCommit, RepoAnalysis } from '../src/lib/types'
+
+// A repository as the extension saw it: enough to rerun the full pipeline without network access.
+export interface RepoSnapshot {
+  id: string
+  label: 'ai' | 'human'
+  repo: PipelineRepo
+  history: CommitHistory
+  tree: FileNode[]
+  // Contents of every file the pipeline read, keyed by path.
+  files: Record<string, string>
+  // Commit details keyed by sha.
+  commits: Record<string, GitHubCommit>
+}
+
+export interface Fixture {
+  id: string
+  label: 'ai' | 'human'
+  target: Recording['target']
+  settings: Recording['settings']
+  source: RepoDataSource
+  // Requests the fixture could not answer; a run with any is not a faithful replay.
+  misses: string[]
+}
+
+// A fixture file is either a snapshot or a recording made with `npm run record -- ... --label`.
+export async function loadFixtures(path: string): Promise<Fixture[]> {
+  if ((await stat(path)).isDirectory()) {
+    const entries = (await readdir(path)).filter((entry) => entry.endsWith('.json')).sort()
+    return (await Promise.all(entries.map((entry) => loadFixtures(join(path, entry))))).flat()
+  }
+
+  const text = await readFile(path, 'utf8')
+  const data = JSON.parse(text) as { id?: string; label?: string; calls?: unknown }
+  const id = data.id ?? basename(path, '.json')
+  if (data.label !== 'ai' && data.label !== 'human') throw new Error(`${id}: label must be "ai" or "human"`)
+
+  const misses: string[] = []
+  if (data.calls) {
+    const recording = parseRecording(text)
+    return [{
+      id,
+      label: data.label,
+      target: recording.target,
+      settings: recording.settings,
+      source: replaySource(recording, (key) => misses.push(key)),
+      misses,
+    }]
+  }
+
+  const snapshot = { files: {}, commits: {}, ...data, id } as RepoSnapshot
+  if (!snapshot.repo || !snapshot.history || !snapshot.tree) throw new Error(`${id}: snapshot needs repo, history and tree`)
+  return [{
+    id,
+    label: snapshot.label,
+    target: { owner: snapshot.repo.owner, repo: snapshot.repo.repo, host: snapshot.repo.host },
+    settings: { commitPageBudget: snapshot.history.pagesFetched, rulePacks: [] },
+    source: snapshotSource(snapshot, (what) => misses.push(what)),
+    misses,
+  }]
+}
+
+// Scans a repository or pull request the way the extension would with the given settings.
+export function analyzeTarget(source: RepoDataSource, target: Recording['target'], settings: Recording['settings']): Promise<RepoAnalysis> {
+  const { owner, repo, host, pullNumber } = target
+  const rules = buildRuleCatalog(settings.rulePacks)
+  return pullNumber === undefined
+    ? analyzeRepository(source, { owner, repo, host, commitPageBudget: settings.commitPageBudget, rules })
+    : analyzePullRequest(source, { owner, repo, host, pullNumber, rules })
+}
+
+// Paths and commits missing from the snapshot fail like a dropped request would.
+export function snapshotSource(snapshot: RepoSnapshot, onMiss?: (what: string) => void): RepoDataSource {
+  const missing = (what: string) => {
+    onMiss?.(what)
+    return Promise.reject(new GitHubApiError(`${what} is not in snapshot ${snapshot.id}`, 404))
+  }
+  return {
+    repoInfo: async () => ({
+      default_branch: snapshot.repo.defaultBranch,
+      name: snapshot.repo.repo,
+      full_name: `${snapshot.repo.owner}/${snapshot.repo.repo}`,
+    }),
+    tree: async () => snapshot.tree,
+    fileContent: async (_owner, _repo, path) => snapshot.files[path] ?? missing(path),
+    commitHistory: async () => snapshot.history,
+    commitDetails: async (_owner, _repo, sha) => snapshot.commits[sha] ?? missing(`Commit ${sha}`),
+    pullRequest: () => missing('Pull request'),
+    pullRequestCommits: () => missing('Pull request'),
+    pullRequestFiles: () => missing('Pull request'),
+  }
+}
@@ -0,0 +1,90 @@
+import type { CalibrationBin } from '../src/lib/model'
+
+export interface Prediction {
+  probability: number
+  // 1 for AI-labelled fixtures, 0 for human ones.
+  label: number
+}
+
+export function logLoss(predictions: Prediction[]): number {
+  if (predictions.length === 0) return 0
+  const epsilon = 1e-6
+  const total = predictions.reduce((sum, { probability, label }) => {
+    const p = Math.min(Math.max(probability, epsilon), 1 - epsilon)
+    return sum - (label * Math.log(p) + (1 - label) * Math.log(1 - p))
+  }, 0)
+  return total / predictions.length
+}
+
+export function brierScore(predictions: Prediction[]): number {
+  if (predictions.length === 0) return 0
+  return predictions.reduce((sum, { probability, label }) => sum + (probability - label) ** 2, 0) / predictions.length
+}
+
+// Reliability curve over equal-width probability buckets; empty buckets are dropped.
+export function calibrationCurve(predictions: Prediction[], buckets = 10): CalibrationBin[] {
+  const bins: CalibrationBin[] = []
+  for (let index = 0; index < buckets; index++) {
+    const upTo = (index + 1) / buckets
+    const members = predictions.filter(({ probability }) =>
+      probability >= index / buckets && (probability < upTo || (index === buckets - 1 && probability <= 1))
+    )
+    if (members.length === 0) continue
+    bins.push({
+      upTo: round(upTo),
+      count: members.length,
+      predicted: round(members.reduce((sum, member) => sum + member.probability, 0) / members.length),
+      observed: round(members.reduce((sum, member) => sum + member.label, 0) / members.length),
+    })
+  }
+  return bins
+}
+
+export function expectedCalibrationError(bins: CalibrationBin[]): number {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0)
+  if (total === 0) return 0
+  return bins.reduce((sum, bin) => sum + (bin.count / total) * Math.abs(bin.predicted - bin.observed), 0)
+}
+
+export function confusionMatrix(predictions: Prediction[], threshold: number): { tp: number; fp: number; tn: number; fn: number } {
+  const matrix = { tp: 0, fp: 0, tn: 0, fn: 0 }
+  for (const { probability, label } of predictions) {
+    const flagged = probability >= threshold
+    if (flagged && label === 1) matrix.tp++
+    else if (flagged) matrix.fp++
+    else if (label === 1) matrix.fn++
+    else matrix.tn++
+  }
+  return matrix
+}
+
+// Probability that a random AI fixture outranks a random human one; ties count half.
+export function rocAuc(predictions: Prediction[]): number {
+  const positives = predictions.filter((prediction) => prediction.label === 1)
+  const negatives = predictions.filter((prediction) => prediction.label === 0)
+  if (positives.length === 0 || negatives.length === 0) return 0
+  let wins = 0
+  for (const positive of positives) {
+    for (const negative of negatives) {
+      if (positive.probability > negative.probability) wins++
+      else if (positive.probability === negative.probability) wins += 0.5
+    }
+  }
+  return wins / (positives.length * negatives.length)
+}
+
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0
+  const sorted = values.slice().sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+export function round(value: number, digits = 3): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
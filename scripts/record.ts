@@ -0,0 +1,59 @@
+// Scans a repository or pull request against the live API and saves every response for replay.
+// Usage: npm run record -- <owner/repo | owner/repo#pr> --out recording.json [--label ai|human] [--pages 4] [--api-base URL] [--ghe URL | --gitlab URL | --gitea URL]
+// A token is read from GITHUB_TOKEN (also for --ghe), GITLAB_TOKEN with --gitlab (whose owner may include subgroups) or GITEA_TOKEN with --gitea.
+import { writeFile } from 'node:fs/promises'
+import { createRecording, recordingSource } from '../src/lib/dataSource'
+import { createGitHubSource } from '../src/lib/github'
+import { createHostSource, normalizeOrigin, type ForgeKind, type RepoHost } from '../src/lib/hosts'
+import { analyzeTarget } from './fixtures'
+
+// Same history depth the extension uses until a user changes it.
+const DEFAULT_PAGES = 4
+
+const HOST_FLAGS: Record<string, { kind: ForgeKind; tokenVariable: string }> = {
+  ghe: { kind: 'github', tokenVariable: 'GITHUB_TOKEN' },
+  gitlab: { kind: 'gitlab', tokenVariable: 'GITLAB_TOKEN' },
+  gitea: { kind: 'gitea', tokenVariable: 'GITEA_TOKEN' },
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
+  const match = args[0]?.match(/^([\w./-]+)\/([\w.-]+)(?:#(\d+))?$/)
+  const out = flag(args, 'out')
+  const label = flag(args, 'label')
+  const hostFlag = Object.keys(HOST_FLAGS).find((name) => flag(args, name) !== undefined)
+  const origin = hostFlag ? normalizeOrigin(flag(args, hostFlag) ?? '') : undefined
+  if (!match || !out || (label !== undefined && label !== 'ai' && label !== 'human') || origin === null) {
+    console.error('Usage: npm run record -- <owner/repo | owner/repo#pr> --out recording.json [--label ai|human] [--pages 4] [--api-base URL] [--ghe URL | --gitlab URL | --gitea URL]')
+    process.exit(1)
+  }
+
+  const hostOption = hostFlag ? HOST_FLAGS[hostFlag] : undefined
+  const host: RepoHost | undefined = hostOption && origin ? { kind: hostOption.kind, origin } : undefined
+  const target = { owner: match[1], repo: match[2], pullNumber: match[3] ? Number(match[3]) : undefined, host }
+  const settings = { commitPageBudget: Number(flag(args, 'pages') ?? DEFAULT_PAGES), rulePacks: [] }
+  const recording = createRecording(target, settings)
+  const live = host && hostOption
+    ? createHostSource({ ...host, token: process.env[hostOption.tokenVariable] })
+    : createGitHubSource({ token: process.env.GITHUB_TOKEN, apiBase: flag(args, 'api-base') })
+  const source = recordingSource(live, recording)
+
+  const analysis = await analyzeTarget(source, target, settings)
+  recording.reported = {
+    slopScore: analysis.slopScore,
+    modelVersion: analysis.diagnostics.modelVersion,
+    ruleCatalogVersion: analysis.diagnostics.ruleCatalogVersion,
+  }
+  await writeFile(out, `${JSON.stringify(label ? { ...recording, label } : recording)}\n`)
+  console.log(`${analysis.repoName}: ${analysis.slopScore}% (${Object.keys(recording.calls).length} responses) -> ${out}`)
+}
+
+function flag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
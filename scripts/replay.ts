@@ -0,0 +1,48 @@
+// Reruns a recorded scan offline and checks the score against the one the extension reported.
+// Usage: npm run replay -- <recording.json> [--json]
+import { readFile } from 'node:fs/promises'
+import { parseRecording, replaySource } from '../src/lib/dataSource'
+import { analyzeTarget } from './fixtures'
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
+  const path = args.find((arg) => !arg.startsWith('--'))
+  if (!path) {
+    console.error('Usage: npm run replay -- <recording.json> [--json]')
+    process.exit(1)
+  }
+
+  const recording = parseRecording(await readFile(path, 'utf8'))
+  const misses: string[] = []
+  const analysis = await analyzeTarget(replaySource(recording, (key) => misses.push(key)), recording.target, recording.settings)
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(analysis, null, 2))
+    return
+  }
+
+  console.log(`${analysis.repoName}: ${analysis.slopScore}% (${analysis.confidence} confidence)`)
+  console.log(`model ${analysis.diagnostics.modelVersion ?? 'n/a'} · rules ${analysis.diagnostics.ruleCatalogVersion ?? 'n/a'}`)
+  for (const indicator of analysis.indicators) {
+    console.log(`  [${indicator.severity}] ${indicator.type}: ${indicator.description}`)
+  }
+
+  if (misses.length > 0) {
+    console.log(`${misses.length} request(s) not in the recording, first ${misses[0]}; re-record it with the current sampler`)
+    process.exitCode = 1
+    return
+  }
+
+  const reported = recording.reported
+  if (!reported) return
+  if (reported.slopScore === analysis.slopScore) {
+    console.log(`Matches the reported ${reported.slopScore}%`)
+    return
+  }
+  console.log(`Reported ${reported.slopScore}% with model ${reported.modelVersion ?? 'n/a'} and rules ${reported.ruleCatalogVersion ?? 'n/a'}; replay differs`)
+  process.exitCode = 1
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
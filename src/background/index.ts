@@ -1,19 +1,26 @@
-import { fetchCommitHistory, fetchFileContent, fetchRepoInfo, fetchRepoTree, GitHubApiError } from '../lib/github'
-import { getCachedAnalysisByKey, cacheAnalysisByKey, getToken } from '../lib/storage'
-import { detectConfigFiles } from '../lib/detectors/configDetector'
-import { analyzeCommitMessages } from '../lib/detectors/commitAnalyzer'
-import { detectVerboseComments } from '../lib/detectors/commentDetector'
-import { detectBoilerplateStructure } from '../lib/detectors/structureDetector'
-import { detectCodePatterns } from '../lib/detectors/codePatternDetector'
-import { detectRepetition } from '../lib/detectors/repetitionDetector'
-import { boundedScale, calculateSlopScore } from '../lib/scoring'
-import type { RepoAnalysis, SlopIndicator, FileNode } from '../lib/types'
+import contentScript from '../content/index.tsx?script'
+import { GitHubApiError } from '../lib/github'
+import { getCachedAnalysisByKey, cacheAnalysisByKey, getSettings, onSettingsChanged, saveRecording } from '../lib/storage'
+import { createHostSource, findHost, GITHUB_ORIGIN, hostPermissionPattern, isBuiltinHost, repoHostOf, type ForgeHost } from '../lib/hosts'
+import { buildRuleCatalog, type RuleCatalog } from '../lib/rules'
+import { createRecording, recordingSource, type RepoDataSource, type Recording } from '../lib/dataSource'
+import {
+  buildFinalAnalysis,
+  buildProvisionalAnalysis,
+  buildPullRequestAnalysis,
+  dedupeIndicators,
+  pullRequestCacheKey,
+  repoCacheKey,
+  sourceContents,
+  type CommitAnalysis,
+  type PipelineRepo,
+} from '../lib/pipeline'
+import type { RepoAnalysis, CommitHistory, Settings } from '../lib/types'
 
 // AI Slop Meter Background Service Worker Initialized
 
 const CACHE_TTL_MS = 60 * 60 * 1000
-const MAX_SAMPLED_FILES = 28
-const FILE_FETCH_CONCURRENCY = 4
+const HOST_SCRIPT_ID = 'forge-hosts'
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'ANALYZE_REPO') {
@@ -23,12 +30,69 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       .catch((error: Error) => sendResponse({ success: false, error: mapError(error) }))
     return true
   }
+
+  if (message.type === 'ANALYZE_PR') {
+    handleAnalyzePullRequest(message.payload)
+      .then((result) => sendResponse({ success: true, data: result }))
+      .catch((error: Error) => sendResponse({ success: false, error: mapError(error) }))
+    return true
+  }
 })
 
-async function handleAnalyzeRepo(payload: { owner: string; repo: string; tabId?: number }, senderTabId?: number): Promise<RepoAnalysis> {
+chrome.runtime.onInstalled.addListener(queueHostScriptSync)
+chrome.runtime.onStartup.addListener(queueHostScriptSync)
+chrome.permissions.onAdded.addListener(queueHostScriptSync)
+chrome.permissions.onRemoved.addListener(queueHostScriptSync)
+onSettingsChanged(queueHostScriptSync)
+
+// Adding a host fires both a settings change and a permission grant; overlapping syncs would race on the script id.
+let hostScriptSync: Promise<void> = Promise.resolve()
+
+function queueHostScriptSync(): void {
+  hostScriptSync = hostScriptSync
+    .then(syncHostContentScripts)
+    .catch((error) => console.error('Failed to sync content script for forge hosts:', error))
+}
+
+// The manifest only covers built-in hosts; configured ones get the content script once their origin is granted.
+async function syncHostContentScripts(): Promise<void> {
+  const { forgeHosts } = await getSettings()
+  const matches: string[] = []
+  for (const host of forgeHosts) {
+    if (isBuiltinHost(host.origin)) continue
+    const pattern = hostPermissionPattern(host.origin)
+    if (await chrome.permissions.contains({ origins: [pattern] })) matches.push(pattern)
+  }
+
+  try {
+    const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [HOST_SCRIPT_ID] })
+    if (matches.length === 0) {
+      if (registered.length > 0) await chrome.scripting.unregisterContentScripts({ ids: [HOST_SCRIPT_ID] })
+    } else if (registered.length > 0) {
+      await chrome.scripting.updateContentScripts([{ id: HOST_SCRIPT_ID, matches, js: [contentScript] }])
+    } else {
+      await chrome.scripting.registerContentScripts([{ id: HOST_SCRIPT_ID, matches, js: [contentScript] }])
+    }
+  } catch (error) {
+    console.error('Failed to register content script for forge hosts:', error)
+  }
+}
+
+function resolveHost(origin: string | undefined, settings: Settings): ForgeHost {
+  const host = findHost(origin ?? GITHUB_ORIGIN, settings.forgeHosts)
+  if (!host) throw new Error(`${origin} is not a configured forge host`)
+  return host
+}
+
+async function handleAnalyzeRepo(payload: { owner: string; repo: string; origin?: string; tabId?: number }, senderTabId?: number): Promise<RepoAnalysis> {
   const { owner, repo } = payload
-  const repoId = `${owner}/${repo}`
-  const token = await getToken()
+  const settings = await getSettings()
+  const forgeHost = resolveHost(payload.origin, settings)
+  const host = repoHostOf(forgeHost)
+  const recording = settings.recordScans
+    ? createRecording({ owner, repo, host }, { commitPageBudget: settings.commitPageBudget, rulePacks: settings.rulePacks })
+    : null
+  const source = withRecording(createHostSource(forgeHost, settings.githubToken), recording)
   const startedAt = Date.now()
   let requestCount = 0
 
@@ -37,10 +101,12 @@ async function handleAnalyzeRepo(payload: { owner: string; repo: string; tabId?:
     return promiseFactory()
   }
 
-  const repoInfo = await withCount(() => fetchRepoInfo(owner, repo, token))
-  const commits = await withCount(() => fetchCommitHistory(owner, repo, token))
-  const latestCommitSha = commits[0]?.sha ?? 'no-commits'
-  const cacheKey = `${repoId}:${repoInfo.default_branch}:${latestCommitSha}`
+  const repoInfo = await withCount(() => source.repoInfo(owner, repo))
+  const history = await withCount(() => source.commitHistory(owner, repo, { pageBudget: settings.commitPageBudget }))
+  requestCount += history.pagesFetched - 1
+  const rules = buildRuleCatalog(settings.rulePacks)
+  const pipelineRepo = { owner, repo, host, defaultBranch: repoInfo.default_branch }
+  const cacheKey = repoCacheKey(pipelineRepo, history, rules, settings.commitPageBudget)
 
   const cached = await getCachedAnalysisByKey(cacheKey)
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
@@ -54,73 +120,24 @@ async function handleAnalyzeRepo(payload: { owner: string; repo: string; tabId?:
     }
   }
 
-  const commitResult = analyzeCommitMessages(commits)
-  const provisionalIndicators = [...commitResult.indicators]
-  const provisionalScore = calculateSlopScore({
-    configSignal: 0,
-    commitLanguageSignal: commitResult.aiSignal,
-    commitBurstSignal: Math.max(commitResult.burstSignal, commitResult.bulkSignal * 0.8),
-    commentPatternSignal: 0,
-    repetitionSignal: 0,
-    structureUniformitySignal: 0,
-    evidenceSignals: signalCount([
-      commitResult.aiSignal,
-      commitResult.burstSignal,
-      commitResult.bulkSignal,
-    ]),
-    signalValues: [
-      commitResult.aiSignal,
-      Math.max(commitResult.burstSignal, commitResult.bulkSignal * 0.8),
-    ],
-    indicatorCount: provisionalIndicators.length,
-    mediumHighIndicatorCount: provisionalIndicators.filter((indicator) => indicator.severity !== 'low').length,
+  const { analysis: provisionalAnalysis, commitResult } = buildProvisionalAnalysis({
+    repo: pipelineRepo,
+    history,
+    rules,
+    startedAt,
+    requestCount,
+    cacheKey,
   })
 
-  const provisionalAnalysis: RepoAnalysis = {
-    repoId,
-    repoName: `${owner}/${repo}`,
-    slopScore: provisionalScore.overall,
-    confidence: provisionalScore.confidence,
-    stage: 'provisional',
-    semantics: 'likelihood',
-    indicators: provisionalIndicators,
-    scoreBreakdown: provisionalScore.breakdown,
-    diagnostics: {
-      timingMs: {
-        startedAt,
-        timeToFirstBadge: Date.now() - startedAt,
-      },
-      requestCount,
-      sampledFiles: 0,
-      featureValues: {
-        configSignal: 0,
-        commitLanguageSignal: round(commitResult.aiSignal),
-        commitBurstSignal: round(Math.max(commitResult.burstSignal, commitResult.bulkSignal * 0.8)),
-        commentPatternSignal: 0,
-        repetitionSignal: 0,
-        structureUniformitySignal: 0,
-      },
-      scoreContributions: provisionalScore.contributions,
-      evidenceStrength: provisionalScore.evidenceStrength,
-    },
-    cache: {
-      isCached: false,
-      cacheKey,
-    },
-    timestamp: Date.now(),
-  }
-
   void runDeepAnalysis({
-    owner,
-    repo,
-    repoId,
-    repoInfo,
-    defaultBranch: repoInfo.default_branch,
-    token,
+    repo: pipelineRepo,
+    source,
+    recording,
     startedAt,
-    initialRequestCount: requestCount,
+    history,
     commitResult,
     provisionalAnalysis,
+    rules,
     cacheKey,
     senderTabId,
   })
@@ -128,283 +145,79 @@ async function handleAnalyzeRepo(payload: { owner: string; repo: string; tabId?:
   return provisionalAnalysis
 }
 
-async function runDeepAnalysis(input: {
-  owner: string
-  repo: string
-  repoId: string
-  repoInfo: {
-    created_at?: string
-    stargazers_count?: number
-  }
-  defaultBranch: string
-  token?: string
-  startedAt: number
-  initialRequestCount: number
-  commitResult: ReturnType<typeof analyzeCommitMessages>
-  provisionalAnalysis: RepoAnalysis
-  cacheKey: string
-  senderTabId?: number
-}): Promise<void> {
-  const {
-    owner,
-    repo,
-    repoId,
-    repoInfo,
-    defaultBranch,
-    token,
-    startedAt,
-    initialRequestCount,
-    commitResult,
-    provisionalAnalysis,
-    cacheKey,
-    senderTabId,
-  } = input
+async function handleAnalyzePullRequest(payload: { owner: string; repo: string; origin?: string; pullNumber: number }): Promise<RepoAnalysis> {
+  const { owner, repo, pullNumber } = payload
+  const settings = await getSettings()
+  const forgeHost = resolveHost(payload.origin, settings)
+  const host = repoHostOf(forgeHost)
+  const recording = settings.recordScans
+    ? createRecording({ owner, repo, pullNumber, host }, { commitPageBudget: settings.commitPageBudget, rulePacks: settings.rulePacks })
+    : null
+  const source = withRecording(createHostSource(forgeHost, settings.githubToken), recording)
+  const rules = buildRuleCatalog(settings.rulePacks)
+  const startedAt = Date.now()
+  let requestCount = 0
 
-  let requestCount = initialRequestCount
   const withCount = async <T>(promiseFactory: () => Promise<T>): Promise<T> => {
     requestCount++
     return promiseFactory()
   }
 
-  try {
-    const files = await withCount(() => fetchRepoTree(owner, repo, defaultBranch, token))
-    const configResult = detectConfigFiles(files)
-    const structureResult = detectBoilerplateStructure(files)
-
-    const analyzableFiles = files.filter(
-      (file) =>
-        file.type === 'file' &&
-        /(\.ts|\.tsx|\.js|\.jsx|\.py|\.go|\.rs|\.java|\.cs|\.rb|\.md|\.txt|\.yml|\.yaml|\.json|\.toml|\.ini)$/i.test(file.name)
-    )
-
-    const sampledFiles = pickSampleFiles(analyzableFiles, MAX_SAMPLED_FILES)
-    const sampledContent = await mapWithConcurrency(sampledFiles, FILE_FETCH_CONCURRENCY, async (file) => {
-      try {
-        const content = await withCount(() => fetchFileContent(owner, repo, file.path, defaultBranch, token))
-        return { path: file.path, content }
-      } catch (error) {
-        console.error(`Error fetching file content for ${file.path}:`, error)
-        return null
-      }
-    })
-
-    const validSamples = sampledContent.filter((sample): sample is { path: string; content: string } => Boolean(sample))
-
-    let commentSignalTotal = 0
-    let commentSignalMax = 0
-    let commentSignalHits = 0
-    let totalMatchedCommentLines = 0
-    let codePatternSignalTotal = 0
-    let codePatternSignalMax = 0
-    let verboseCommentBlocks = 0
-    const codePatternFiles: Array<{ path: string; matches: number }> = []
-    let codePatternTotalMatches = 0
-
-    for (const sample of validSamples) {
-      const isCodeFile = /\.(ts|tsx|js|jsx|py|go|rs|java|cs|rb)$/i.test(sample.path)
-      const commentResult = isCodeFile
-        ? detectVerboseComments(sample.content)
-        : { verboseBlocks: 0, matchedLines: 0, commentSignal: 0, indicators: [] as SlopIndicator[] }
-      const codePatternResult = detectCodePatterns(sample.path, sample.content)
-      verboseCommentBlocks += commentResult.verboseBlocks
-      totalMatchedCommentLines += commentResult.matchedLines
-      commentSignalTotal += commentResult.commentSignal
-      commentSignalMax = Math.max(commentSignalMax, commentResult.commentSignal)
-      if (commentResult.matchedLines > 0) commentSignalHits++
-      codePatternSignalTotal += codePatternResult.signal
-      codePatternSignalMax = Math.max(codePatternSignalMax, codePatternResult.signal)
-      codePatternTotalMatches += codePatternResult.patternMatches
-      if (codePatternResult.patternMatches > 0) {
-        codePatternFiles.push({ path: sample.path, matches: codePatternResult.patternMatches })
-      }
-    }
-
-    const repetitionResult = detectRepetition(validSamples)
-    const pathKeywordMatches = files.filter(
-      (file) =>
-        file.type === 'file' &&
-        /(?:^|\/)(?:ai|copilot|cursor|claude|chatgpt|gpt|openai|llm|prompt|prompts|instructions?)(?:\/|\.|_|-)/i.test(file.path)
-    ).length
-    const aiWorkflowPathMatches = files.filter(
-      (file) =>
-        file.type === 'file' &&
-        /(\.opencode\/|\.cursor\/|\.aider\/|\.github\/copilot|AGENTS\.md|CLAUDE\.md|openspec)/i.test(file.path)
-    ).length
-    const pathKeywordSignal = boundedScale(pathKeywordMatches, 1, 12)
-    const workflowPathSignal = boundedScale(aiWorkflowPathMatches, 1, 10)
-
-    const baseConfigSignal = configResult.found ? Math.min(0.45 + (configResult.files.length * 0.2), 1) : 0
-    const configSignalRaw = clamp(baseConfigSignal + (pathKeywordSignal * 0.4) + (workflowPathSignal * 0.5), 0, 1)
-    const sampleCount = Math.max(validSamples.length, 1)
-    const commentAvg = ratioSafe(commentSignalTotal, sampleCount)
-    const codePatternAvg = ratioSafe(codePatternSignalTotal, sampleCount)
-    const commentHitRate = ratioSafe(commentSignalHits, sampleCount)
-    const commentPatternSignal = clamp(
-      (commentAvg * 0.35) +
-        (commentSignalMax * 0.25) +
-        (codePatternAvg * 0.15) +
-        (codePatternSignalMax * 0.1) +
-        (boundedScale(commentHitRate, 0.08, 0.45) * 0.1) +
-        (boundedScale(totalMatchedCommentLines, 3, 24) * 0.25),
-      0,
-      1
-    )
-
-    const isLegacyRepo = isLikelyLegacyRepo(repoInfo)
-
-    let commitLanguageSignal = commitResult.aiSignal
-    let commitBurstSignal = Math.max(commitResult.burstSignal, commitResult.bulkSignal * 0.8)
-    let configSignal = configSignalRaw
-    if (isLegacyRepo && totalMatchedCommentLines < 6 && codePatternTotalMatches < 10 && configResult.files.length === 0) {
-      commitLanguageSignal *= 0.62
-      commitBurstSignal *= 0.65
-      configSignal = Math.min(configSignal, 0.18)
-    }
+  const pullRequest = await withCount(() => source.pullRequest(owner, repo, pullNumber))
+  const cacheKey = pullRequestCacheKey({ owner, repo, host }, pullRequest, rules)
 
-    const indicators = dedupeIndicators([
-      ...commitResult.indicators,
-      ...(totalMatchedCommentLines > 0
-        ? [
-            {
-              type: 'Prompt-like Comment Pattern',
-              description: `Detected ${totalMatchedCommentLines} AI-like comment lines across ${verboseCommentBlocks} block(s)`,
-              severity: totalMatchedCommentLines >= 8 ? 'high' : totalMatchedCommentLines >= 3 ? 'medium' : 'low',
-            } as SlopIndicator,
-          ]
-        : []),
-      ...(codePatternTotalMatches > 0
-        ? [
-            {
-              type: 'AI Boilerplate Trace',
-              description: `${codePatternTotalMatches} prompt-like marker(s) across ${codePatternFiles.length} file(s)`,
-              severity: codePatternTotalMatches >= 12 ? 'high' : codePatternTotalMatches >= 4 ? 'medium' : 'low',
-            } as SlopIndicator,
-            {
-              type: 'AI Boilerplate Trace',
-              description: `Top files: ${codePatternFiles
-                .sort((a, b) => b.matches - a.matches)
-                .slice(0, 3)
-                .map((entry) => `${entry.path} (${entry.matches})`)
-                .join(', ')}`,
-              severity: 'low',
-            } as SlopIndicator,
-          ]
-        : []),
-      ...repetitionResult.indicators,
-      ...structureResult.indicators,
-      ...(pathKeywordMatches > 0
-        ? [
-            {
-              type: 'AI-oriented File Paths',
-              description: `${pathKeywordMatches} file path(s) reference AI/prompt/instruction keywords`,
-              severity: pathKeywordMatches >= 4 ? 'medium' : 'low',
-            } as SlopIndicator,
-          ]
-        : []),
-      ...(aiWorkflowPathMatches > 0
-        ? [
-            {
-              type: 'AI Workflow Files',
-              description: `${aiWorkflowPathMatches} workflow/instruction file path(s) detected`,
-              severity: aiWorkflowPathMatches >= 3 ? 'medium' : 'low',
-            } as SlopIndicator,
-          ]
-        : []),
-      ...(configResult.found
-        ? [
-            {
-              type: 'AI Config Files',
-              description: `Found AI config files: ${configResult.files.join(', ')}`,
-              severity: configResult.severity,
-            } as SlopIndicator,
-          ]
-        : []),
-      ...(isLegacyRepo
-        ? [
-            {
-              type: 'Legacy Repo Dampener',
-              description: 'Reduced commit/path-only confidence for long-established repository history',
-              severity: 'low',
-            } as SlopIndicator,
-          ]
-        : []),
-    ])
-
-    const scoring = calculateSlopScore({
-      configSignal,
-      commitLanguageSignal,
-      commitBurstSignal,
-      commentPatternSignal,
-      repetitionSignal: repetitionResult.repetitionSignal,
-      structureUniformitySignal: structureResult.uniformitySignal,
-      evidenceSignals: signalCount([
-        configSignal,
-        commitLanguageSignal,
-        commitBurstSignal,
-        commentPatternSignal,
-        repetitionResult.repetitionSignal,
-        structureResult.uniformitySignal,
-        workflowPathSignal,
-      ]),
-      signalValues: [
-        configSignal,
-        commitLanguageSignal,
-        commitBurstSignal,
-        commentPatternSignal,
-        repetitionResult.repetitionSignal,
-        structureResult.uniformitySignal,
-        workflowPathSignal,
-      ],
-      indicatorCount: indicators.length,
-      mediumHighIndicatorCount: indicators.filter((indicator) => indicator.severity !== 'low').length,
-    })
-
-    const finalAnalysis: RepoAnalysis = {
-      repoId,
-      repoName: `${owner}/${repo}`,
-      slopScore: scoring.overall,
-      confidence: scoring.confidence,
-      stage: 'final',
-      semantics: 'likelihood',
-      indicators,
-      scoreBreakdown: scoring.breakdown,
-      diagnostics: {
-        timingMs: {
-          startedAt,
-          timeToFirstBadge: provisionalAnalysis.diagnostics.timingMs.timeToFirstBadge,
-          timeToFinalScore: Date.now() - startedAt,
-        },
-        requestCount,
-        sampledFiles: validSamples.length,
-        featureValues: {
-          configSignal: round(configSignal),
-          commitLanguageSignal: round(commitLanguageSignal),
-          commitBurstSignal: round(commitBurstSignal),
-          commentPatternSignal: round(commentPatternSignal),
-          repetitionSignal: round(repetitionResult.repetitionSignal),
-          structureUniformitySignal: round(structureResult.uniformitySignal),
-          pathKeywordSignal: round(pathKeywordSignal),
-          pathKeywordMatches,
-          workflowPathSignal: round(workflowPathSignal),
-          aiWorkflowPathMatches,
-          legacyRepoDampener: isLegacyRepo ? 1 : 0,
-          verboseCommentBlocks,
-          matchedCommentLines: totalMatchedCommentLines,
-          commentHitRate: round(commentHitRate),
-          repeatedShapes: structureResult.repeatedShapes,
-          averageSimilarity: round(repetitionResult.averageSimilarity),
-        },
-        scoreContributions: scoring.contributions,
-        evidenceStrength: scoring.evidenceStrength,
-      },
+  const cached = await getCachedAnalysisByKey(cacheKey)
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+    return {
+      ...cached,
       cache: {
-        isCached: false,
+        ...cached.cache,
+        isCached: true,
         cacheKey,
       },
-      timestamp: Date.now(),
     }
+  }
+
+  const [commits, changedFiles] = await Promise.all([
+    withCount(() => source.pullRequestCommits(owner, repo, pullNumber)),
+    withCount(() => source.pullRequestFiles(owner, repo, pullNumber)),
+  ])
+
+  const analysis = buildPullRequestAnalysis({
+    repo: { owner, repo, host },
+    pullRequest,
+    commits,
+    changedFiles,
+    rules,
+    startedAt,
+    requestCount,
+    cacheKey,
+  })
+
+  await storeAnalysis(cacheKey, analysis)
+  await storeRecording(recording, analysis)
+  return analysis
+}
+
+async function runDeepAnalysis(input: {
+  repo: PipelineRepo
+  source: RepoDataSource
+  recording: Recording | null
+  startedAt: number
+  history: CommitHistory
+  commitResult: CommitAnalysis
+  provisionalAnalysis: RepoAnalysis
+  rules: RuleCatalog
+  cacheKey: string
+  senderTabId?: number
+}): Promise<void> {
+  const { repo, source, recording, startedAt, provisionalAnalysis, cacheKey, senderTabId } = input
+
+  try {
+    const finalAnalysis = await buildFinalAnalysis({ ...input, contents: sourceContents(source, repo) })
 
-    await cacheAnalysisByKey(cacheKey, finalAnalysis)
+    await storeAnalysis(cacheKey, finalAnalysis)
+    await storeRecording(recording, finalAnalysis)
     await publishAnalysisUpdate(finalAnalysis, senderTabId)
   } catch (error) {
     console.error('Deep analysis failed:', error)
@@ -456,109 +269,39 @@ async function publishAnalysisUpdate(analysis: RepoAnalysis, tabId?: number): Pr
   }
 }
 
-function pickSampleFiles(files: FileNode[], maxFiles: number): FileNode[] {
-  if (files.length <= maxFiles) return files
-
-  const priorityPattern = /(ai|copilot|cursor|claude|gpt|prompt|instruction|generated|scaffold|template|readme|contributing|guide)/i
-  const rootFiles = files.filter((file) => !file.path.includes('/'))
-  const prioritized = files.filter((file) => priorityPattern.test(file.path))
-  const rest = files.filter((file) => !priorityPattern.test(file.path) && !rootFiles.includes(file))
-
-  const selection: FileNode[] = []
-  const pushUnique = (file: FileNode) => {
-    if (selection.find((item) => item.path === file.path)) return
-    selection.push(file)
-  }
-
-  for (const file of prioritized) {
-    if (selection.length >= Math.ceil(maxFiles * 0.45)) break
-    pushUnique(file)
-  }
-  for (const file of rootFiles) {
-    if (selection.length >= Math.ceil(maxFiles * 0.6)) break
-    pushUnique(file)
-  }
-
-  const remainingSlots = maxFiles - selection.length
-  if (remainingSlots <= 0) return selection.slice(0, maxFiles)
-
-  const step = rest.length / remainingSlots
-  for (let i = 0; i < remainingSlots; i++) {
-    const item = rest[Math.floor(i * step)]
-    if (item) pushUnique(item)
+// A full storage quota must not turn a finished analysis into a failed one.
+async function storeAnalysis(cacheKey: string, analysis: RepoAnalysis): Promise<void> {
+  try {
+    await cacheAnalysisByKey(cacheKey, analysis)
+  } catch (error) {
+    console.error('Failed to cache analysis:', error)
   }
-
-  return selection.slice(0, maxFiles)
 }
 
-async function mapWithConcurrency<T, R>(
-  items: T[],
-  concurrency: number,
-  mapper: (item: T) => Promise<R>
-): Promise<R[]> {
-  const output: R[] = new Array(items.length)
-  let index = 0
-
-  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
-    while (index < items.length) {
-      const currentIndex = index
-      index++
-      output[currentIndex] = await mapper(items[currentIndex])
-    }
-  })
+function withRecording(source: RepoDataSource, recording: Recording | null): RepoDataSource {
+  return recording ? recordingSource(source, recording) : source
+}
 
-  await Promise.all(workers)
-  return output
+async function storeRecording(recording: Recording | null, analysis: RepoAnalysis): Promise<void> {
+  if (!recording) return
+  recording.reported = {
+    slopScore: analysis.slopScore,
+    modelVersion: analysis.diagnostics.modelVersion,
+    ruleCatalogVersion: analysis.diagnostics.ruleCatalogVersion,
+  }
+  try {
+    await saveRecording(analysis.repoId, recording)
+  } catch (error) {
+    console.error('Failed to store scan recording:', error)
+  }
 }
 
 function mapError(error: Error): string {
   if (error instanceof GitHubApiError) {
-    if (error.status === 403) return 'RATE_LIMIT: GitHub API rate limit reached. Add token in settings.'
+    if (error.status === 403 || error.status === 429) return 'RATE_LIMIT: API rate limit reached. Add token in settings.'
     if (error.status === 401 || error.status === 404) return 'AUTH_REQUIRED: Repository may be private or requires a token.'
     return `API_ERROR: ${error.message}`
   }
 
   return `NETWORK_ERROR: ${error.message}`
 }
-
-function dedupeIndicators(indicators: SlopIndicator[]): SlopIndicator[] {
-  const seen = new Set<string>()
-  const deduped: SlopIndicator[] = []
-
-  for (const indicator of indicators) {
-    const key = `${indicator.type}:${indicator.description}`
-    if (seen.has(key)) continue
-    seen.add(key)
-    deduped.push(indicator)
-  }
-
-  return deduped
-}
-
-function signalCount(values: number[]): number {
-  return values.filter((value) => value >= 0.2).length
-}
-
-function ratioSafe(value: number, divisor: number): number {
-  if (divisor <= 0) return 0
-  return value / divisor
-}
-
-function clamp(value: number, min: number, max: number): number {
-  if (value < min) return min
-  if (value > max) return max
-  return value
-}
-
-function round(value: number): number {
-  return Math.round(value * 100) / 100
-}
-
-function isLikelyLegacyRepo(repoInfo: { created_at?: string; stargazers_count?: number }): boolean {
-  if (!repoInfo.created_at) return false
-  const createdAt = new Date(repoInfo.created_at).getTime()
-  if (Number.isNaN(createdAt)) return false
-  const legacyCutoff = new Date('2020-01-01T00:00:00.000Z').getTime()
-  const stars = repoInfo.stargazers_count ?? 0
-  return createdAt < legacyCutoff && stars >= 150
-}
@@ -1,6 +1,8 @@
 // AI Slop Meter Content Script Initialized
 
 import { getSettings } from '../lib/storage'
+import { findHost, parseRepoLocation, repoHostOf, repoPath, type ForgeHost, type ForgeKind, type RepoLocation } from '../lib/hosts'
+import type { FileAnalysis, RepoAnalysis } from '../lib/types'
 
 let badgeContainer: HTMLElement | null = null
 let lastUrl = window.location.href
@@ -11,9 +13,45 @@ let pollTimer: ReturnType<typeof setInterval> | null = null
 let badgeRetryTimer: ReturnType<typeof setInterval> | null = null
 let pendingBadge: { label: string; tone: BadgeTone } | null = null
 let currentBadge: { label: string; tone: BadgeTone } | null = null
+let currentFileScores: Map<string, FileAnalysis> | null = null
+let currentHost: ForgeHost | null = null
 
 type BadgeTone = 'loading' | 'low' | 'moderate' | 'high'
 
+interface PageSelectors {
+  header: string[]
+  pullTitle: string[]
+  fileLinks: string
+  // Path segment that starts a file URL, and how many segments after it name the ref.
+  fileRoute: { modes: string[]; refSegments: number }
+  containerClass: string
+}
+
+const PAGE_SELECTORS: Record<ForgeKind, PageSelectors> = {
+  github: {
+    header: ['[data-testid="repository-container-header"]', '#repository-container-header', '.repohead', '[class*="repo-head"]'],
+    pullTitle: ['[data-component="PH_Title"]', '.gh-header-title', 'h1[class*="PageHeader-Title"]'],
+    fileLinks: 'table[aria-labelledby="folders-and-files"] a.Link--primary, .react-directory-filename-column a, [role="rowheader"] a.js-navigation-open',
+    fileRoute: { modes: ['blob', 'tree'], refSegments: 1 },
+    containerClass: 'container-xl px-md-4 px-lg-5 px-3',
+  },
+  gitlab: {
+    header: ['.project-home-panel', '.top-bar-container', '.breadcrumbs'],
+    pullTitle: ['[data-testid="title-content"]', '.merge-request-details h1.title', '.detail-page-header h1.title'],
+    fileLinks: '.tree-item-file-name a',
+    fileRoute: { modes: ['blob', 'tree'], refSegments: 1 },
+    containerClass: '',
+  },
+  // Gitea and Forgejo link files as `src/branch/<ref>/<path>` (or `tag` / `commit`).
+  gitea: {
+    header: ['.repo-header', '.repository .header-wrapper'],
+    pullTitle: ['#issue-title', '.issue-title h1'],
+    fileLinks: '#repo-files-table .repo-file-cell.name a, #repo-files-table td.name a',
+    fileRoute: { modes: ['src'], refSegments: 2 },
+    containerClass: '',
+  },
+}
+
 function badgeStyle(tone: BadgeTone) {
   if (tone === 'loading') {
     return { background: '#e0f2fe', color: '#075985', border: '#bae6fd' }
@@ -27,16 +65,33 @@ function badgeStyle(tone: BadgeTone) {
   return { background: '#fee2e2', color: '#991b1b', border: '#fca5a5' }
 }
 
+function pageSelectors(): PageSelectors {
+  return PAGE_SELECTORS[currentHost?.kind ?? 'github']
+}
+
+function queryFirst(selectors: string[]): Element | null {
+  for (const selector of selectors) {
+    const element = document.querySelector(selector)
+    if (element) return element
+  }
+  return null
+}
+
 function findHeader(): Element | null {
-  return (
-    document.querySelector('[data-testid="repository-container-header"]') ||
-    document.querySelector('#repository-container-header') ||
-    document.querySelector('.repohead') ||
-    document.querySelector('[class*="repo-head"]')
-  )
+  return queryFirst(pageSelectors().header)
 }
 
-function findBadgeMountPoint(): { parent: Element; before: Element | null } | null {
+function findPullRequestTitle(): Element | null {
+  return queryFirst(pageSelectors().pullTitle)
+}
+
+function findBadgeMountPoint(): { parent: Element; before: Element | null; inline: boolean } | null {
+  if (getCurrentRepo()?.pullNumber !== undefined) {
+    const title = findPullRequestTitle()
+    if (!title) return null
+    return { parent: title, before: null, inline: true }
+  }
+
   const header = findHeader()
   if (!header || !header.parentElement) return null
 
@@ -45,7 +100,7 @@ function findBadgeMountPoint(): { parent: Element; before: Element | null } | nu
     before = before.nextElementSibling
   }
 
-  return { parent: header.parentElement, before }
+  return { parent: header.parentElement, before, inline: false }
 }
 
 function buildBadgeMarkup(label: string, tone: BadgeTone): string {
@@ -73,10 +128,18 @@ function mountBadge(label: string, tone: BadgeTone): boolean {
   const mountPoint = findBadgeMountPoint()
   if (!mountPoint) return false
 
-  if (!badgeContainer || !badgeContainer.isConnected) {
-    badgeContainer = document.createElement('div')
-    badgeContainer.className = 'container-xl px-md-4 px-lg-5 px-3 ai-slop-meter-container'
-    badgeContainer.style.cssText = 'margin: 12px auto 14px auto; display: flex; align-items: center;'
+  const scope = mountPoint.inline ? 'pull' : 'repo'
+  if (!badgeContainer || !badgeContainer.isConnected || badgeContainer.dataset.scope !== scope) {
+    badgeContainer?.remove()
+    badgeContainer = document.createElement(mountPoint.inline ? 'span' : 'div')
+    badgeContainer.dataset.scope = scope
+    if (mountPoint.inline) {
+      badgeContainer.className = 'ai-slop-meter-container'
+      badgeContainer.style.cssText = 'margin-left: 8px; display: inline-flex; align-items: center; vertical-align: middle;'
+    } else {
+      badgeContainer.className = `${pageSelectors().containerClass} ai-slop-meter-container`.trim()
+      badgeContainer.style.cssText = 'margin: 12px auto 14px auto; display: flex; align-items: center;'
+    }
   }
 
   badgeContainer.innerHTML = buildBadgeMarkup(label, tone)
@@ -107,10 +170,105 @@ function retryPendingBadge() {
   }
 }
 
-function getCurrentRepo() {
-  const match = window.location.href.match(/github\.com\/([^/]+)\/([^/]+)/)
-  if (!match) return null
-  return { owner: match[1], repo: match[2], repoId: `${match[1]}/${match[2]}` }
+function buildFileScoreMap(files: FileAnalysis[]): Map<string, FileAnalysis> {
+  const scores = new Map<string, FileAnalysis>()
+
+  for (const file of files) {
+    scores.set(file.path, file)
+    const parts = file.path.split('/')
+    for (let depth = 1; depth < parts.length; depth++) {
+      const dirPath = parts.slice(0, depth).join('/')
+      const existing = scores.get(dirPath)
+      if (!existing || existing.score < file.score) {
+        scores.set(dirPath, { ...file, path: dirPath })
+      }
+    }
+  }
+
+  return scores
+}
+
+function lookupFileScore(href: string, scores: Map<string, FileAnalysis>): FileAnalysis | null {
+  let pathname: string
+  try {
+    pathname = decodeURIComponent(new URL(href, window.location.origin).pathname)
+  } catch {
+    return null
+  }
+
+  const parts = pathname.split('/').filter(Boolean)
+  const { modes, refSegments } = pageSelectors().fileRoute
+  const modeIndex = parts.findIndex((part, index) => index >= 2 && modes.includes(part))
+  if (modeIndex === -1) return null
+
+  // Branch names may contain slashes, so try the longest path suffix first.
+  for (let start = modeIndex + 1 + refSegments; start < parts.length; start++) {
+    const match = scores.get(parts.slice(start).join('/'))
+    if (match) return match
+  }
+
+  return null
+}
+
+function buildFileMarker(file: FileAnalysis): HTMLElement {
+  const style = badgeStyle(scoreTone(file.score))
+  const marker = document.createElement('span')
+  marker.className = 'ai-slop-meter-file-marker'
+  marker.title = `AI likelihood ${file.score}% · ${file.codePatternMatches} marker(s) · ${file.matchedCommentLines} comment line(s) · ${Math.round(file.similarity * 100)}% max similarity`
+  marker.textContent = `${file.score}%`
+  marker.style.cssText = `
+    display: inline-block;
+    margin-left: 6px;
+    padding: 0 6px;
+    border-radius: 9999px;
+    font-size: 11px;
+    font-weight: 600;
+    line-height: 16px;
+    background-color: ${style.background};
+    color: ${style.color};
+    border: 1px solid ${style.border};
+    vertical-align: middle;
+  `
+  return marker
+}
+
+function annotateFileRows() {
+  if (!currentFileScores || currentFileScores.size === 0) return
+
+  const links = document.querySelectorAll<HTMLAnchorElement>(pageSelectors().fileLinks)
+
+  for (const link of links) {
+    if (link.parentElement?.querySelector('.ai-slop-meter-file-marker')) continue
+    const file = lookupFileScore(link.getAttribute('href') ?? '', currentFileScores)
+    if (!file) continue
+    link.insertAdjacentElement('afterend', buildFileMarker(file))
+  }
+}
+
+function clearFileMarkers() {
+  document.querySelectorAll('.ai-slop-meter-file-marker').forEach((marker) => marker.remove())
+}
+
+function applyFileHeatmap(analysis: RepoAnalysis) {
+  if (analysis.stage !== 'final' || !analysis.files || analysis.files.length === 0) return
+  clearFileMarkers()
+  currentFileScores = buildFileScoreMap(analysis.files)
+  annotateFileRows()
+}
+
+function getCurrentRepo(): (RepoLocation & { repoId: string }) | null {
+  if (!currentHost) return null
+  // GitLab group pages share the project URL shape; the page type on <body> tells them apart.
+  const pageType = document.body?.dataset.page
+  if (currentHost.kind === 'gitlab' && pageType && !pageType.startsWith('projects:')) return null
+
+  const location = parseRepoLocation(currentHost, new URL(window.location.href))
+  if (!location) return null
+  const repoId = repoPath(location.owner, location.repo, repoHostOf(currentHost))
+  return {
+    ...location,
+    repoId: location.pullNumber !== undefined ? `${repoId}#${location.pullNumber}` : repoId,
+  }
 }
 
 function scoreTone(score: number): Exclude<BadgeTone, 'loading'> {
@@ -119,9 +277,14 @@ function scoreTone(score: number): Exclude<BadgeTone, 'loading'> {
   return 'high'
 }
 
-function renderAnalysisBadge(score: number, stage: 'provisional' | 'final') {
-  const stageLabel = stage === 'provisional' ? 'Provisional' : 'Final'
-  injectBadge(`AI Likelihood: ${score}% (${stageLabel})`, scoreTone(score))
+function renderAnalysisBadge(analysis: RepoAnalysis) {
+  if (analysis.pullRequest) {
+    injectBadge(`PR AI Likelihood: ${analysis.slopScore}%`, scoreTone(analysis.slopScore))
+    return
+  }
+
+  const stageLabel = analysis.stage === 'provisional' ? 'Provisional' : 'Final'
+  injectBadge(`AI Likelihood: ${analysis.slopScore}% (${stageLabel})`, scoreTone(analysis.slopScore))
 }
 
 async function analyzeRepo() {
@@ -138,19 +301,21 @@ async function analyzeRepo() {
   injectBadge('Analyzing...', 'loading')
 
   try {
-    const response = await chrome.runtime.sendMessage({
-      type: 'ANALYZE_REPO',
-      payload: { owner: repo.owner, repo: repo.repo },
-    })
+    const response = await chrome.runtime.sendMessage(
+      repo.pullNumber !== undefined
+        ? { type: 'ANALYZE_PR', payload: { owner: repo.owner, repo: repo.repo, origin: window.location.origin, pullNumber: repo.pullNumber } }
+        : { type: 'ANALYZE_REPO', payload: { owner: repo.owner, repo: repo.repo, origin: window.location.origin } }
+    )
 
     if (!response.success) {
       injectBadge('Analysis unavailable', 'moderate')
       return
     }
 
-    const analysis = response.data as { slopScore: number; stage: 'provisional' | 'final'; repoId: string }
+    const analysis = response.data as RepoAnalysis
     if (analysis.repoId === currentRepoId) {
-      renderAnalysisBadge(analysis.slopScore, analysis.stage)
+      renderAnalysisBadge(analysis)
+      applyFileHeatmap(analysis)
     }
   } catch (error) {
     console.error('Error analyzing repo:', error)
@@ -172,6 +337,8 @@ function handleUrlChange() {
   currentRepoId = null
   currentBadge = null
   pendingBadge = null
+  currentFileScores = null
+  clearFileMarkers()
   if (badgeContainer && badgeContainer.isConnected) {
     badgeContainer.remove()
   }
@@ -215,28 +382,34 @@ function setupNavigationListeners() {
     const observer = new MutationObserver(() => {
       retryPendingBadge()
       handleUrlChange()
+      annotateFileRows()
     })
     observer.observe(title, { childList: true })
   }
 
-  badgeRetryTimer = setInterval(retryPendingBadge, 400)
+  badgeRetryTimer = setInterval(() => {
+    retryPendingBadge()
+    annotateFileRows()
+  }, 400)
 }
 
-chrome.runtime.onMessage.addListener((message: { type?: string; payload?: { repoId: string; slopScore: number; stage: 'provisional' | 'final' } }) => {
+chrome.runtime.onMessage.addListener((message: { type?: string; payload?: RepoAnalysis }) => {
   if (message.type !== 'ANALYSIS_UPDATE' || !message.payload) return
 
   const repo = getCurrentRepo()
   if (!repo || message.payload.repoId !== repo.repoId) return
 
   currentRepoId = repo.repoId
-  renderAnalysisBadge(message.payload.slopScore, message.payload.stage)
+  renderAnalysisBadge(message.payload)
+  applyFileHeatmap(message.payload)
 })
 
 // Initialize: check autoAnalyze setting before running initial analysis
 async function initialize() {
-  setupNavigationListeners()
-  
   const settings = await getSettings()
+  currentHost = findHost(window.location.origin, settings.forgeHosts)
+  setupNavigationListeners()
+
   if (settings.autoAnalyze) {
     void analyzeRepo()
   }
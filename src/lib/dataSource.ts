@@ -0,0 +1,100 @@
+import { GitHubApiError } from './github'
+import type { RulePack } from './rules'
+import type { RepoHost } from './hosts'
+import type { CommitHistory, FileNode, GitHubCommit, GitHubFile, GitHubPullRequest, GitHubRepo } from './types'
+
+// Everything the analysis reads from a forge; live, recording and replay sources all implement it.
+export interface RepoDataSource {
+  repoInfo: (owner: string, repo: string) => Promise<GitHubRepo>
+  tree: (owner: string, repo: string, ref: string) => Promise<FileNode[]>
+  fileContent: (owner: string, repo: string, path: string, ref: string) => Promise<string>
+  commitHistory: (owner: string, repo: string, options?: { perPage?: number; pageBudget?: number }) => Promise<CommitHistory>
+  commitDetails: (owner: string, repo: string, sha: string) => Promise<GitHubCommit>
+  pullRequest: (owner: string, repo: string, pullNumber: number) => Promise<GitHubPullRequest>
+  pullRequestCommits: (owner: string, repo: string, pullNumber: number) => Promise<GitHubCommit[]>
+  pullRequestFiles: (owner: string, repo: string, pullNumber: number) => Promise<GitHubFile[]>
+}
+
+export type RecordedResponse = { value: unknown } | { error: { message: string; status?: number } }
+
+// What a scan needs to be rerun: the request that started it, the settings that shaped it and every response.
+export interface Recording {
+  version: 1
+  target: { owner: string; repo: string; pullNumber?: number; host?: RepoHost }
+  settings: { commitPageBudget: number; rulePacks: RulePack[] }
+  // Score and versions the extension reported, so a replay can confirm it matches.
+  reported?: { slopScore: number; modelVersion?: string; ruleCatalogVersion?: string }
+  recordedAt: string
+  calls: Record<string, RecordedResponse>
+}
+
+type SourceMethod = (...args: unknown[]) => Promise<unknown>
+
+export function createRecording(target: Recording['target'], settings: Recording['settings']): Recording {
+  return { version: 1, target, settings, recordedAt: new Date().toISOString(), calls: {} }
+}
+
+// Passes calls through to `source` and stores each response, failures included, in `recording`.
+export function recordingSource(source: RepoDataSource, recording: Recording): RepoDataSource {
+  return buildSource((method) => async (...args) => {
+    const key = callKey(method, args)
+    try {
+      const value = await (source[method] as SourceMethod)(...args)
+      recording.calls[key] = { value }
+      return value
+    } catch (error) {
+      recording.calls[key] = {
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+          status: error instanceof GitHubApiError ? error.status : undefined,
+        },
+      }
+      throw error
+    }
+  })
+}
+
+// Serves a recording back; calls that were never made fail as 404s and are passed to `onMiss`.
+export function replaySource(recording: Recording, onMiss?: (key: string) => void): RepoDataSource {
+  return buildSource((method) => async (...args) => {
+    const key = callKey(method, args)
+    const response = recording.calls[key]
+    if (!response) {
+      onMiss?.(key)
+      throw new GitHubApiError(`Not in recording: ${key}`, 404)
+    }
+    if ('error' in response) {
+      throw response.error.status === undefined
+        ? new Error(response.error.message)
+        : new GitHubApiError(response.error.message, response.error.status)
+    }
+    return response.value
+  })
+}
+
+export function parseRecording(text: string): Recording {
+  const recording = JSON.parse(text) as Partial<Recording>
+  if (recording.version !== 1 || !recording.target || !recording.settings || typeof recording.calls !== 'object') {
+    throw new Error('Not a version 1 recording')
+  }
+  return recording as Recording
+}
+
+function buildSource(wrap: (method: keyof RepoDataSource) => SourceMethod): RepoDataSource {
+  // Every wrapper forwards its arguments untouched, so each keeps the signature of the method it stands in for.
+  const method = <M extends keyof RepoDataSource>(name: M) => wrap(name) as RepoDataSource[M]
+  return {
+    repoInfo: method('repoInfo'),
+    tree: method('tree'),
+    fileContent: method('fileContent'),
+    commitHistory: method('commitHistory'),
+    commitDetails: method('commitDetails'),
+    pullRequest: method('pullRequest'),
+    pullRequestCommits: method('pullRequestCommits'),
+    pullRequestFiles: method('pullRequestFiles'),
+  }
+}
+
+function callKey(method: string, args: unknown[]): string {
+  return `${method} ${JSON.stringify(args)}`
+}
@@ -1,25 +1,19 @@
 import type { SlopIndicator } from '../types'
 import { boundedScale, ratio } from '../scoring'
+import { DEFAULT_RULES, rulesFor, type RuleCatalog } from '../rules'
 
-const CODE_PATTERNS = [
-  /(?:as an ai|ai assistant|generated by)/i,
-  /(?:here(?:'s| is) (?:the|an) (?:code|implementation))/i,
-  /(?:this section was autogenerated)/i,
-  /(?:template(?:d)? scaffold)/i,
-  /(?:agent instructions?|prompt instructions?)/i,
-  /(?:openspec|spec-driven workflow)/i,
-  /(?:please adapt this)/i,
-  /(?:TODO: replace with real logic)/i,
-]
-
-export function detectCodePatterns(path: string, content: string): {
+export function detectCodePatterns(path: string, content: string, rules: RuleCatalog = DEFAULT_RULES): {
   patternMatches: number
   signal: number
+  stubMatches: number
+  qualitySignal: number
   indicators: SlopIndicator[]
 } {
-  const matches = CODE_PATTERNS.reduce((count, pattern) => {
-    const found = content.match(new RegExp(pattern.source, 'gi'))
-    return count + (found?.length ?? 0)
+  const markerRuleIds: string[] = []
+  const matches = rulesFor(rules, 'marker').reduce((count, rule) => {
+    const found = content.match(rule.pattern)?.length ?? 0
+    if (found > 0) markerRuleIds.push(rule.id)
+    return count + (found * rule.weight)
   }, 0)
 
   const lineCount = content.split('\n').length
@@ -33,12 +27,37 @@ export function detectCodePatterns(path: string, content: string): {
       type: 'AI Boilerplate Trace',
       description: `${path}: ${matches} prompt-like marker${matches === 1 ? '' : 's'}`,
       severity: matches >= 3 ? 'high' : 'medium',
+      files: [path],
+      ruleIds: markerRuleIds,
+    })
+  }
+
+  // Stub rules share a description per kind of placeholder, so counts are grouped by it.
+  const stubCounts = new Map<string, number>()
+  const stubRuleIds: string[] = []
+  for (const rule of rulesFor(rules, 'stub')) {
+    const found = content.match(rule.pattern)?.length ?? 0
+    if (found === 0) continue
+    stubCounts.set(rule.description, (stubCounts.get(rule.description) ?? 0) + (found * rule.weight))
+    stubRuleIds.push(rule.id)
+  }
+  const stubMatches = [...stubCounts.values()].reduce((sum, count) => sum + count, 0)
+  const qualitySignal = boundedScale(stubMatches, 0, 3)
+  if (stubMatches > 0) {
+    indicators.push({
+      type: 'Placeholder Implementation',
+      description: `${path}: ${[...stubCounts.entries()].map(([label, count]) => `${label} (${count})`).join(', ')}`,
+      severity: stubMatches >= 3 ? 'high' : 'medium',
+      files: [path],
+      ruleIds: stubRuleIds,
     })
   }
 
   return {
     patternMatches: matches,
     signal,
+    stubMatches,
+    qualitySignal,
     indicators,
   }
 }
@@ -1,16 +1,15 @@
 import type { SlopIndicator } from '../types'
 import { boundedScale, ratio } from '../scoring'
+import { extractComments, getLanguage, type LanguageSpec } from '../languages'
+import { DEFAULT_RULES, rulesFor, type RuleCatalog } from '../rules'
 
-const COMMENT_PATTERNS = [
-  /(?:as an ai|ai assistant|generated by (?:chatgpt|claude|gpt)|copilot)/i,
-  /(?:this function (?:handles|is responsible for)|the purpose of this)/i,
-  /(?:step \d+:|first[, ]|next[, ]|finally[, ])/i,
-  /(?:todo: (?:implement|improve) this later)/i,
-  /(?:boilerplate|scaffold) (?:code|implementation)/i,
-  /(?:here(?:'s| is) (?:the|an) updated)/i,
-]
+const DEFAULT_LANGUAGE = getLanguage('index.ts') as LanguageSpec
 
-export function detectVerboseComments(content: string): {
+export function detectVerboseComments(
+  content: string,
+  language: LanguageSpec = DEFAULT_LANGUAGE,
+  rules: RuleCatalog = DEFAULT_RULES
+): {
   verboseBlocks: number
   matchedLines: number
   commentSignal: number
@@ -21,18 +20,19 @@ export function detectVerboseComments(content: string): {
   let verboseBlockCount = 0
   let matchedLines = 0
 
-  for (let index = 0; index < lines.length; index++) {
-    const line = lines[index]
-    const trimmed = line.trim()
-    const isComment = trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*')
-    if (!isComment) continue
-
-    if (COMMENT_PATTERNS.some((pattern) => pattern.test(trimmed))) {
-      matchedLines++
-      const previous = lines[index - 1]?.trim() ?? ''
-      if (!(previous.startsWith('//') || previous.startsWith('*') || previous.startsWith('/*'))) {
-        verboseBlockCount++
-      }
+  const comments = extractComments(content, language)
+  const commentLines = new Set(comments.map((comment) => comment.line))
+  const commentRules = rulesFor(rules, 'assistant-comment')
+  const matchedRuleIds = new Set<string>()
+
+  for (const comment of comments) {
+    const matched = commentRules.filter((rule) => rule.pattern.test(comment.text))
+    if (matched.length === 0) continue
+
+    matchedLines += Math.max(...matched.map((rule) => rule.weight))
+    for (const rule of matched) matchedRuleIds.add(rule.id)
+    if (!commentLines.has(comment.line - 1)) {
+      verboseBlockCount++
     }
   }
 
@@ -41,6 +41,7 @@ export function detectVerboseComments(content: string): {
       type: 'Prompt-like Comment Pattern',
       description: `Detected ${matchedLines} AI-like comment lines across ${verboseBlockCount} block(s)`,
       severity: matchedLines >= 4 ? 'medium' : 'low',
+      ruleIds: [...matchedRuleIds],
     })
   }
 
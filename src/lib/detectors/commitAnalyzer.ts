@@ -1,72 +1,52 @@
-import type { SlopIndicator, GitHubCommit } from '../types'
+import type { AuthorBreakdown, SlopIndicator, GitHubCommit } from '../types'
 import { boundedScale, ratio, stddev } from '../scoring'
+import { DEFAULT_RULES, rulesFor, type Rule, type RuleCatalog, type RuleCategory } from '../rules'
+import { classifyCommitMessage, isBotCommit } from './commitClassifier'
+import type { Detector } from './registry'
 
-const AI_PATTERNS = [
-  /generated by/i,
-  /auto-generated/i,
-  /llm/i,
-  /gpt/i,
-  /chatgpt/i,
-  /claude/i,
-  /refactored by ai/i,
-  /ai-generated/i,
-  /copilot/i,
-  /cursor/i,
-  /prompt/i,
-  /assisted-by:\s*(?:ai|copilot|chatgpt|claude|gpt)/i,
-  /\bai assistant\b/i,
-]
-
-const BULK_PATTERNS = [
-  /bulk/i,
-  /mass/i,
-  /scaffold/i,
-  /boilerplate/i,
-  /codegen/i,
-  /generated by/i,
-  /ai-generated/i,
-  /refactor all/i,
-  /apply suggestions/i,
-]
-
-const NARRATIVE_PATTERNS = [
-  /restructure codebase/i,
-  /modular architecture/i,
-  /improve maintainability/i,
-  /enhance(?:d|ment)?/i,
-  /streamline(?:d|ment)?/i,
-  /comprehensive/i,
-  /production-ready/i,
-  /robust/i,
-  /best practices/i,
-  /clean architecture/i,
-]
-
-export function analyzeCommitMessages(commits: GitHubCommit[]): {
+export function analyzeCommitMessages(
+  allCommits: GitHubCommit[],
+  options: { segmentStarts?: string[]; rules?: RuleCatalog } = {}
+): {
   aiCommits: number
   bulkCommits: number
+  botCommits: number
   totalCommits: number
   percentage: number
   aiSignal: number
   burstSignal: number
   bulkSignal: number
+  authors: AuthorBreakdown[]
+  aiMatches: Array<{ sha: string; ruleId: string; category: RuleCategory; tool?: string }>
   indicators: SlopIndicator[]
 } {
+  // Dependency and CI bots skew cadence and conventional-commit signals.
+  const commits = allCommits.filter((commit) => !isBotCommit(commit))
+  const segmentStarts = new Set(options.segmentStarts ?? [])
+  const rules = options.rules ?? DEFAULT_RULES
+  const bulkRules = rulesFor(rules, 'bulk')
   const indicators: SlopIndicator[] = []
+  const aiMatches: Array<{ sha: string; ruleId: string; category: RuleCategory; tool?: string }> = []
+  const narrativeRuleIds = new Set<string>()
   let aiCommitCount = 0
   let bulkCommitCount = 0
+  // Rule weights scale the signals only; the reported counts stay whole commits.
+  let aiCommitWeight = 0
+  let bulkCommitWeight = 0
   let templatedNarrativeCommits = 0
   let narrativePhraseHits = 0
   let conventionalStyleCommits = 0
   const openerCounts = new Map<string, number>()
   const commitGapsHours: number[] = []
   let previousDate: Date | null = null
+  const authorStats = new Map<string, { commits: number; aiCommits: number; aiWeight: number; burstCommits: number; previousDate: Date | null }>()
 
   for (const commit of commits) {
     const rawMessage = commit.commit.message
     const message = rawMessage.toLowerCase()
     const firstLine = rawMessage.split('\n')[0] ?? rawMessage
-    if (/^[a-z]+(?:\([^)]+\))?!?:\s.+/i.test(firstLine)) {
+    const style = describeCommitStyle(rawMessage, rules)
+    if (style.conventional) {
       conventionalStyleCommits++
     }
 
@@ -75,51 +55,86 @@ export function analyzeCommitMessages(commits: GitHubCommit[]): {
       openerCounts.set(opener, (openerCounts.get(opener) ?? 0) + 1)
     }
 
-    const hasNarrativePhrase = NARRATIVE_PATTERNS.some((pattern) => pattern.test(message))
-    if (hasNarrativePhrase) {
-      narrativePhraseHits++
+    if (style.narrative) {
+      narrativePhraseHits += Math.max(...style.narrativeRules.map((rule) => rule.weight))
+      for (const rule of style.narrativeRules) narrativeRuleIds.add(rule.id)
     }
 
-    const hasStructuredBody = /\n\s*[-*]\s+/.test(rawMessage) || /\n\s*\d+\.\s+/.test(rawMessage)
-    const longMessage = rawMessage.length > 120
-    if ((longMessage || hasStructuredBody) && (hasNarrativePhrase || /^[a-z]+(?:\([^)]+\))?!?:\s/i.test(firstLine))) {
+    if ((style.long || style.structuredBody) && (style.narrative || style.conventional)) {
       templatedNarrativeCommits++
     }
 
-    for (const pattern of AI_PATTERNS) {
-      if (pattern.test(message)) {
-        aiCommitCount++
-        indicators.push({
-          type: 'AI Commit',
-          description: `AI-linked commit wording: "${compact(commit.commit.message)}"`,
-          severity: 'medium',
-        })
-        break
-      }
+    const authorKey = commitAuthor(commit)
+    const author = authorStats.get(authorKey) ?? { commits: 0, aiCommits: 0, aiWeight: 0, burstCommits: 0, previousDate: null }
+    author.commits++
+    authorStats.set(authorKey, author)
+
+    const aiMatch = classifyCommitMessage(rawMessage, rules)
+    if (aiMatch) {
+      aiCommitCount++
+      aiCommitWeight += aiMatch.weight
+      author.aiCommits++
+      author.aiWeight += aiMatch.weight
+      aiMatches.push({ sha: commit.sha, ruleId: aiMatch.id, category: aiMatch.category, tool: aiMatch.tool })
+      indicators.push({
+        type: 'AI Commit',
+        description: `AI-linked commit wording [${aiMatch.id}]: "${compact(commit.commit.message)}"`,
+        severity: aiMatch.category === 'ai-trailer' ? 'high' : 'medium',
+        ruleIds: [aiMatch.id],
+      })
     }
 
-    for (const pattern of BULK_PATTERNS) {
-      if (pattern.test(message)) {
-        bulkCommitCount++
-        indicators.push({
-          type: 'Bulk Commit Pattern',
-          description: `Broad generation/refactor commit: "${compact(commit.commit.message)}"`,
-          severity: 'medium',
-        })
-        break
-      }
+    const bulkMatch = bulkRules.find((rule) => rule.pattern.test(message))
+    if (bulkMatch) {
+      bulkCommitCount++
+      bulkCommitWeight += bulkMatch.weight
+      indicators.push({
+        type: 'Bulk Commit Pattern',
+        description: `Broad generation/refactor commit: "${compact(commit.commit.message)}"`,
+        severity: 'medium',
+        ruleIds: [bulkMatch.id],
+      })
     }
 
     const commitDate = new Date(commit.commit.author.date)
+    // Sampled pages are not contiguous, so the gap across a page jump is not a real cadence.
+    if (segmentStarts.has(commit.sha)) {
+      previousDate = null
+      author.previousDate = null
+    }
     if (previousDate) {
       const gapHours = Math.abs(commitDate.getTime() - previousDate.getTime()) / 3600000
       commitGapsHours.push(gapHours)
     }
     previousDate = commitDate
+
+    if (author.previousDate && Math.abs(commitDate.getTime() - author.previousDate.getTime()) <= 3600000) {
+      author.burstCommits++
+    }
+    author.previousDate = commitDate
   }
 
+  const authors: AuthorBreakdown[] = [...authorStats.entries()]
+    .map(([name, stats]) => ({
+      author: name,
+      commits: stats.commits,
+      aiCommits: stats.aiCommits,
+      burstCommits: stats.burstCommits,
+      aiShare: ratio(stats.aiCommits, stats.commits),
+      burstShare: ratio(stats.burstCommits, stats.commits),
+    }))
+    .sort((a, b) => b.commits - a.commits)
+
   const percentage = commits.length > 0 ? (aiCommitCount / commits.length) * 100 : 0
-  const keywordSignal = boundedScale(percentage, 1, 30)
+  const weightedPercentage = ratio(aiCommitWeight, commits.length) * 100
+  // Weight contributors equally alongside the raw share so one heavy agent user
+  // does not dominate the verdict on multi-contributor repositories.
+  const activeAuthors = authors.filter((author) => author.commits >= 2)
+  const activeAuthorStats = [...authorStats.values()].filter((stats) => stats.commits >= 2)
+  const authorPercentage = activeAuthorStats.length >= 2
+    ? (activeAuthorStats.reduce((sum, stats) => sum + ratio(stats.aiWeight, stats.commits), 0) / activeAuthorStats.length) * 100
+    : weightedPercentage
+  const keywordSignal = boundedScale((weightedPercentage + authorPercentage) / 2, 1, 30)
   const templatedSignal = boundedScale(ratio(templatedNarrativeCommits, commits.length), 0.08, 0.45)
   const narrativeSignal = boundedScale(ratio(narrativePhraseHits, commits.length), 0.1, 0.6)
   const conventionalSignal = boundedScale(ratio(conventionalStyleCommits, commits.length), 0.45, 0.95)
@@ -132,7 +147,7 @@ export function analyzeCommitMessages(commits: GitHubCommit[]): {
       (repeatedOpenerSignal * 0.05),
     1
   )
-  const bulkSignal = boundedScale(ratio(bulkCommitCount, commits.length), 0.03, 0.35)
+  const bulkSignal = boundedScale(ratio(bulkCommitWeight, commits.length), 0.03, 0.35)
 
   const burstSignal = computeBurstSignal(commitGapsHours)
   if (burstSignal >= 0.5) {
@@ -147,21 +162,75 @@ export function analyzeCommitMessages(commits: GitHubCommit[]): {
       type: 'Templated Commit Narratives',
       description: 'Commit messages show repeated structured, assistant-like narrative phrasing',
       severity: templatedSignal >= 0.7 ? 'high' : 'medium',
+      ruleIds: narrativeRuleIds.size > 0 ? [...narrativeRuleIds] : undefined,
+    })
+  }
+  const concentratedAuthor = activeAuthors.length >= 3
+    ? activeAuthors.find((author) => author.aiCommits >= 2 && author.aiCommits >= aiCommitCount * 0.8)
+    : undefined
+  if (concentratedAuthor) {
+    indicators.push({
+      type: 'Concentrated AI Contributor',
+      description: `${concentratedAuthor.author} accounts for ${concentratedAuthor.aiCommits} of ${aiCommitCount} AI-linked commits`,
+      severity: 'low',
     })
   }
 
   return {
     aiCommits: aiCommitCount,
     bulkCommits: bulkCommitCount,
+    botCommits: allCommits.length - commits.length,
     totalCommits: commits.length,
     percentage,
     aiSignal,
     burstSignal,
     bulkSignal,
+    authors,
+    aiMatches,
     indicators,
   }
 }
 
+export const commitDetector: Detector = {
+  id: 'commits',
+  version: 1,
+  inputs: ['commits'],
+  signals: [
+    { id: 'commitLanguageSignal', weight: 0.22, group: 'commits', notes: 'Commit language and narrative structure typical of AI-assisted workflows' },
+    { id: 'commitBurstSignal', weight: 0.09, group: 'commits', notes: 'Bursty commit cadence and bulk-change messaging' },
+  ],
+  run: ({ commits }) => {
+    const result = commits!.analysis
+    return {
+      signals: {
+        commitLanguageSignal: result.aiSignal,
+        commitBurstSignal: Math.max(result.burstSignal, result.bulkSignal * 0.8),
+      },
+      indicators: result.indicators,
+      featureValues: { botCommits: result.botCommits },
+    }
+  },
+}
+
+export function describeCommitStyle(rawMessage: string, rules: RuleCatalog = DEFAULT_RULES): {
+  conventional: boolean
+  narrative: boolean
+  narrativeRules: Rule[]
+  structuredBody: boolean
+  long: boolean
+} {
+  const firstLine = rawMessage.split('\n')[0] ?? rawMessage
+  const message = rawMessage.toLowerCase()
+  const narrativeRules = rulesFor(rules, 'narrative').filter((rule) => rule.pattern.test(message))
+  return {
+    conventional: /^[a-z]+(?:\([^)]+\))?!?:\s.+/i.test(firstLine),
+    narrative: narrativeRules.length > 0,
+    narrativeRules,
+    structuredBody: /\n\s*[-*]\s+/.test(rawMessage) || /\n\s*\d+\.\s+/.test(rawMessage),
+    long: rawMessage.length > 120,
+  }
+}
+
 function computeBurstSignal(commitGapsHours: number[]): number {
   if (commitGapsHours.length === 0) return 0
   const tinyGaps = commitGapsHours.filter((gap) => gap <= 1).length
@@ -171,6 +240,10 @@ function computeBurstSignal(commitGapsHours: number[]): number {
   return Math.min((denseRatio * 0.7) + (variabilitySignal * 0.3), 1)
 }
 
+function commitAuthor(commit: GitHubCommit): string {
+  return commit.author?.login ?? commit.commit.author.name ?? commit.commit.author.email ?? 'unknown'
+}
+
 function compact(value: string): string {
   const trimmed = value.trim().replace(/\s+/g, ' ')
   return trimmed.length > 80 ? `${trimmed.slice(0, 77)}...` : trimmed
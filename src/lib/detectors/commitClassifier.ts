@@ -0,0 +1,55 @@
+import type { GitHubCommit } from '../types'
+import { DEFAULT_RULES, rulesFor, type Rule, type RuleCatalog } from '../rules'
+
+const BOT_LOGINS = [
+  'dependabot',
+  'dependabot-preview',
+  'renovate',
+  'renovate-bot',
+  'github-actions',
+  'greenkeeper',
+  'snyk-bot',
+  'pre-commit-ci',
+  'imgbot',
+  'allcontributors',
+  'semantic-release-bot',
+  'mergify',
+  'codecov',
+  'pyup-bot',
+  'depfu',
+]
+
+export function isBotCommit(commit: GitHubCommit): boolean {
+  const login = commit.author?.login?.toLowerCase() ?? ''
+  const name = commit.commit.author.name?.toLowerCase() ?? ''
+  const email = commit.commit.author.email?.toLowerCase() ?? ''
+
+  if (login.endsWith('[bot]') || name.endsWith('[bot]')) return true
+  if (BOT_LOGINS.includes(login) || BOT_LOGINS.includes(name)) return true
+  return /^\d+\+(?:dependabot|renovate|github-actions)\b/.test(email)
+}
+
+export function classifyCommitMessage(message: string, rules: RuleCatalog = DEFAULT_RULES): Rule | null {
+  const trailerRule = findAiTrailer(message, rules)
+  if (trailerRule) return trailerRule
+
+  // Trailers name human co-authors too, so keep them out of the wording rules.
+  const body = message.replace(/^co-authored-by:.*$/gim, '')
+  for (const rule of rulesFor(rules, 'ai-wording')) {
+    if (!rule.pattern.test(body)) continue
+    if (rule.exclude?.test(body)) continue
+    return rule
+  }
+
+  return null
+}
+
+function findAiTrailer(message: string, rules: RuleCatalog): Rule | null {
+  const trailers = message.match(/^co-authored-by:.*$/gim) ?? []
+  const trailerRules = rulesFor(rules, 'ai-trailer')
+  for (const trailer of trailers) {
+    const match = trailerRules.find((rule) => rule.pattern.test(trailer))
+    if (match) return match
+  }
+  return null
+}
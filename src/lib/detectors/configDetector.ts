@@ -1,33 +1,90 @@
-import type { FileNode, SlopIndicatorSeverity } from '../types'
+import type { FileNode, SlopIndicator, SlopIndicatorSeverity } from '../types'
+import { boundedScale, round } from '../scoring'
+import { DEFAULT_RULES, rulesFor, type RuleCatalog } from '../rules'
+import type { Detector } from './registry'
 
-const CONFIG_FILES = [
-  '.cursorrules',
-  '.copilot-instructions',
-  'copilot.yml',
-  '.windsurfrules',
-  '.ai-instructions',
-  'ai-instructions.md',
-  '.github/copilot-instructions.md',
-  '.github/instructions.md',
-  'CLAUDE.md',
-  '.cursor/rules',
-  '.continue/config.json',
-]
-
-export function detectConfigFiles(files: FileNode[]): {
+export function detectConfigFiles(files: FileNode[], rules: RuleCatalog = DEFAULT_RULES): {
   found: boolean
   files: string[]
+  weight: number
+  ruleIds: string[]
   severity: SlopIndicatorSeverity
 } {
-  const foundFiles = files.filter(f => 
-    CONFIG_FILES.some(config => f.name === config || f.path.endsWith(config))
-  )
+  const configRules = rulesFor(rules, 'config-file')
+  const foundFiles = files
+    .map((file) => ({ path: file.path, rule: configRules.find((rule) => rule.pattern.test(file.path)) }))
+    .filter((entry) => entry.rule !== undefined)
 
   const severity: SlopIndicatorSeverity = foundFiles.length > 1 ? 'high' : foundFiles.length === 1 ? 'medium' : 'low'
 
   return {
     found: foundFiles.length > 0,
-    files: foundFiles.map(f => f.path),
+    files: foundFiles.map((entry) => entry.path),
+    weight: foundFiles.reduce((sum, entry) => sum + (entry.rule?.weight ?? 0), 0),
+    ruleIds: [...new Set(foundFiles.map((entry) => entry.rule?.id ?? ''))],
     severity,
   }
 }
+
+export const configDetector: Detector = {
+  id: 'config',
+  version: 1,
+  inputs: ['tree'],
+  signals: [
+    { id: 'configSignal', weight: 0.11, group: 'configs', notes: 'AI-specific config and instruction files' },
+    { id: 'workflowPathSignal', weight: 0, notes: 'Agent workflow directories and instruction files' },
+  ],
+  run: ({ tree, rules }) => {
+    const files = tree!.files
+    const configResult = detectConfigFiles(files, rules)
+    const pathKeywordMatches = files.filter(
+      (file) =>
+        file.type === 'file' &&
+        /(?:^|\/)(?:ai|copilot|cursor|claude|chatgpt|gpt|openai|llm|prompt|prompts|instructions?)(?:\/|\.|_|-)/i.test(file.path)
+    ).length
+    const aiWorkflowPathMatches = files.filter(
+      (file) =>
+        file.type === 'file' &&
+        /(\.opencode\/|\.cursor\/|\.aider\/|\.github\/copilot|AGENTS\.md|CLAUDE\.md|openspec)/i.test(file.path)
+    ).length
+    const pathKeywordSignal = boundedScale(pathKeywordMatches, 1, 12)
+    const workflowPathSignal = boundedScale(aiWorkflowPathMatches, 1, 10)
+    const baseConfigSignal = configResult.found ? Math.min(0.45 + (configResult.weight * 0.2), 1) : 0
+    const configSignal = Math.min(baseConfigSignal + (pathKeywordSignal * 0.4) + (workflowPathSignal * 0.5), 1)
+
+    const indicators: SlopIndicator[] = []
+    if (pathKeywordMatches > 0) {
+      indicators.push({
+        type: 'AI-oriented File Paths',
+        description: `${pathKeywordMatches} file path(s) reference AI/prompt/instruction keywords`,
+        severity: pathKeywordMatches >= 4 ? 'medium' : 'low',
+      })
+    }
+    if (aiWorkflowPathMatches > 0) {
+      indicators.push({
+        type: 'AI Workflow Files',
+        description: `${aiWorkflowPathMatches} workflow/instruction file path(s) detected`,
+        severity: aiWorkflowPathMatches >= 3 ? 'medium' : 'low',
+      })
+    }
+    if (configResult.found) {
+      indicators.push({
+        type: 'AI Config Files',
+        description: `Found AI config files: ${configResult.files.join(', ')}`,
+        severity: configResult.severity,
+        ruleIds: configResult.ruleIds,
+      })
+    }
+
+    return {
+      signals: { configSignal, workflowPathSignal },
+      indicators,
+      featureValues: {
+        aiConfigFiles: configResult.files.length,
+        pathKeywordSignal: round(pathKeywordSignal),
+        pathKeywordMatches,
+        aiWorkflowPathMatches,
+      },
+    }
+  },
+}
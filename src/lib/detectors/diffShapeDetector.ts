@@ -0,0 +1,121 @@
+import type { SlopIndicator, GitHubCommit } from '../types'
+import { boundedScale, ratio, round } from '../scoring'
+import type { Detector } from './registry'
+
+const BULK_ADDED_FILES = 12
+const LARGE_DIFF_FILES = 8
+
+export function analyzeDiffShapes(commits: GitHubCommit[]): {
+  sampledCommits: number
+  bulkAddCommits: number
+  terseLargeCommits: number
+  maxAddedFiles: number
+  additionRatio: number
+  diffShapeSignal: number
+  indicators: SlopIndicator[]
+} {
+  const detailed = commits.filter((commit) => Array.isArray(commit.files))
+  const indicators: SlopIndicator[] = []
+  if (detailed.length === 0) {
+    return {
+      sampledCommits: 0,
+      bulkAddCommits: 0,
+      terseLargeCommits: 0,
+      maxAddedFiles: 0,
+      additionRatio: 0,
+      diffShapeSignal: 0,
+      indicators,
+    }
+  }
+
+  let bulkAddCommits = 0
+  let terseLargeCommits = 0
+  let maxAddedFiles = 0
+  let totalAdditions = 0
+  let totalDeletions = 0
+
+  for (const commit of detailed) {
+    const files = commit.files ?? []
+    const additions = commit.stats?.additions ?? files.reduce((sum, file) => sum + file.additions, 0)
+    const deletions = commit.stats?.deletions ?? files.reduce((sum, file) => sum + file.deletions, 0)
+    totalAdditions += additions
+    totalDeletions += deletions
+
+    // Root commits legitimately import a whole project at once.
+    const isRootCommit = (commit.parents?.length ?? 1) === 0
+    const addedFiles = files.filter((file) => file.status === 'added').length
+    if (!isRootCommit) {
+      maxAddedFiles = Math.max(maxAddedFiles, addedFiles)
+    }
+
+    if (!isRootCommit && addedFiles >= BULK_ADDED_FILES) {
+      bulkAddCommits++
+      indicators.push({
+        type: 'Bulk File Drop Commit',
+        description: `${commit.sha.slice(0, 7)} added ${addedFiles} complete files (+${additions}/-${deletions})`,
+        severity: addedFiles >= 30 ? 'high' : 'medium',
+      })
+    }
+
+    const message = commit.commit.message.trim()
+    const firstLine = message.split('\n')[0] ?? message
+    const isOneLine = !message.includes('\n') && firstLine.length <= 60
+    if (!isRootCommit && isOneLine && files.length >= LARGE_DIFF_FILES) {
+      terseLargeCommits++
+      indicators.push({
+        type: 'Terse Message on Large Diff',
+        description: `${commit.sha.slice(0, 7)} touched ${files.length} files with "${firstLine}"`,
+        severity: files.length >= 25 ? 'medium' : 'low',
+      })
+    }
+  }
+
+  const additionRatio = ratio(totalAdditions, totalAdditions + totalDeletions)
+  const bulkSignal = Math.max(
+    boundedScale(maxAddedFiles, LARGE_DIFF_FILES, 40),
+    boundedScale(ratio(bulkAddCommits, detailed.length), 0.1, 0.4)
+  )
+  const additionSignal = boundedScale(additionRatio, 0.8, 0.98)
+  const terseSignal = boundedScale(ratio(terseLargeCommits, detailed.length), 0.1, 0.5)
+  const diffShapeSignal = Math.min((bulkSignal * 0.45) + (additionSignal * 0.25) + (terseSignal * 0.3), 1)
+
+  if (detailed.length >= 4 && additionRatio >= 0.9) {
+    indicators.push({
+      type: 'Addition-heavy History',
+      description: `${Math.round(additionRatio * 100)}% of changed lines in ${detailed.length} sampled commits are additions`,
+      severity: additionRatio >= 0.97 ? 'medium' : 'low',
+    })
+  }
+
+  return {
+    sampledCommits: detailed.length,
+    bulkAddCommits,
+    terseLargeCommits,
+    maxAddedFiles,
+    additionRatio,
+    diffShapeSignal,
+    indicators,
+  }
+}
+
+export const diffShapeDetector: Detector = {
+  id: 'diff-shape',
+  version: 1,
+  inputs: ['commitDetails'],
+  signals: [
+    { id: 'diffShapeSignal', weight: 0.06, group: 'commits', notes: 'Bulk file drops, addition-heavy diffs and terse messages on large commits' },
+  ],
+  run: ({ commitDetails }) => {
+    const result = analyzeDiffShapes(commitDetails!)
+    return {
+      signals: { diffShapeSignal: result.diffShapeSignal },
+      indicators: result.indicators,
+      featureValues: {
+        sampledCommitDetails: result.sampledCommits,
+        bulkAddCommits: result.bulkAddCommits,
+        terseLargeCommits: result.terseLargeCommits,
+        additionRatio: round(result.additionRatio),
+      },
+    }
+  },
+}
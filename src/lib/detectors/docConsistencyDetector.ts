@@ -0,0 +1,231 @@
+import type { FileNode, SlopIndicator } from '../types'
+import { boundedScale } from '../scoring'
+import { getLanguage } from '../languages'
+import { dirname, joinPath } from '../paths'
+import { isProseFile } from './proseDetector'
+import type { Detector } from './registry'
+
+const SHELL_FENCES = ['', 'sh', 'bash', 'shell', 'console', 'zsh', 'terminal', 'cmd', 'powershell', 'ps1']
+const MAX_REPORTED_MISMATCHES = 6
+
+// Package-manager subcommands that are not script invocations.
+const PACKAGE_MANAGER_COMMANDS = new Set([
+  'install', 'i', 'ci', 'add', 'remove', 'rm', 'uninstall', 'update', 'up', 'upgrade', 'init', 'create', 'dlx',
+  'exec', 'x', 'link', 'unlink', 'publish', 'pack', 'audit', 'outdated', 'why', 'list', 'ls', 'info', 'config',
+  'global', 'cache', 'login', 'logout', 'version', 'help', 'set', 'import', 'workspace', 'workspaces', 'run',
+  'install-test', 'store', 'patch', 'prune', 'rebuild', 'env', 'setup', 'self-update', 'fetch', 'deploy',
+])
+const NPM_LIFECYCLE_DEFAULTS = new Set(['install', 'ci'])
+// Link targets like `example.com/docs` or `www.example.org` that omit the scheme.
+const HOSTNAME_SEGMENT = /^[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}(?::\d+)?$/i
+const COMMON_TLDS = new Set(['com', 'org', 'net', 'io', 'dev', 'app', 'co', 'me', 'ai', 'gg', 'xyz', 'edu', 'gov', 'info', 'biz'])
+
+interface DocMismatch {
+  path: string
+  line: number
+  text: string
+  reason: string
+}
+
+export function checkDocConsistency(
+  samples: Array<{ path: string; content: string }>,
+  files: FileNode[]
+): {
+  docDriftSignal: number
+  checkedReferences: number
+  mismatches: number
+  indicators: SlopIndicator[]
+} {
+  const paths = new Set(files.map((file) => file.path))
+  for (const file of files) {
+    const parts = file.path.split('/')
+    for (let i = 1; i < parts.length; i++) paths.add(parts.slice(0, i).join('/'))
+  }
+  const scripts = collectScripts(samples)
+  const makeTargets = collectMakeTargets(samples)
+  const mismatches: DocMismatch[] = []
+  let checkedReferences = 0
+
+  for (const sample of samples.filter((entry) => isProseFile(entry.path))) {
+    const directory = dirname(sample.path)
+    const pathExists = (reference: string) => {
+      const cleaned = reference.replace(/[#?].*$/, '').replace(/\/$/, '')
+      if (cleaned.startsWith('/')) return paths.has(cleaned.slice(1))
+      return paths.has(joinPath(directory, cleaned)) || paths.has(joinPath('', cleaned))
+    }
+    const packageScripts = nearestScripts(sample.path, scripts)
+    let fence: string | null = null
+
+    sample.content.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.trim()
+      const fenceMatch = line.match(/^(?:```|~~~)\s*([\w+-]*)/)
+      if (fenceMatch) {
+        fence = fence === null ? fenceMatch[1].toLowerCase() : null
+        return
+      }
+      const report = (reason: string) => mismatches.push({ path: sample.path, line: index + 1, text: line, reason })
+
+      if (fence === null) {
+        for (const reference of extractProseReferences(line)) {
+          checkedReferences++
+          if (!pathExists(reference)) report(`missing path ${reference}`)
+        }
+        return
+      }
+      if (!SHELL_FENCES.includes(fence)) return
+
+      const command = line.replace(/^(?:\$|>|#|PS>)\s+/, '')
+      const script = parseScriptInvocation(command)
+      if (script && packageScripts) {
+        checkedReferences++
+        if (!packageScripts.has(script)) report(`no "${script}" script in package.json`)
+      }
+      const target = command.match(/^make\s+([\w-]+)/)?.[1]
+      if (target && makeTargets) {
+        checkedReferences++
+        if (!makeTargets.has(target)) report(`no "${target}" target in Makefile`)
+      }
+      const entrypoint = parseEntrypoint(command)
+      if (entrypoint) {
+        checkedReferences++
+        if (!pathExists(entrypoint)) report(`missing entrypoint ${entrypoint}`)
+      }
+    })
+  }
+
+  const docDriftSignal = boundedScale(mismatches.length, 0, 5)
+  const indicators: SlopIndicator[] = mismatches.slice(0, MAX_REPORTED_MISMATCHES).map((mismatch) => ({
+    type: 'Documentation Drift',
+    description: `${mismatch.path}:${mismatch.line}: ${mismatch.reason} — "${compact(mismatch.text)}"`,
+    severity: mismatches.length >= 3 ? 'medium' : 'low',
+    files: [mismatch.path],
+  }))
+  if (mismatches.length > MAX_REPORTED_MISMATCHES) {
+    indicators.push({
+      type: 'Documentation Drift',
+      description: `${mismatches.length - MAX_REPORTED_MISMATCHES} more documented reference(s) do not match the repository`,
+      severity: 'low',
+    })
+  }
+
+  return {
+    docDriftSignal,
+    checkedReferences,
+    mismatches: mismatches.length,
+    indicators,
+  }
+}
+
+export const docConsistencyDetector: Detector = {
+  id: 'doc-consistency',
+  version: 2,
+  inputs: ['tree', 'samples'],
+  signals: [
+    { id: 'docDriftSignal', weight: 0.04, group: 'patterns', notes: 'README paths, scripts and commands that do not match the repository' },
+  ],
+  run: ({ tree, samples }) => {
+    const result = checkDocConsistency(samples!, tree!.files)
+    return {
+      signals: { docDriftSignal: result.docDriftSignal },
+      indicators: result.indicators,
+      featureValues: {
+        checkedDocReferences: result.checkedReferences,
+        docMismatches: result.mismatches,
+      },
+    }
+  },
+}
+
+// Relative markdown links and inline code spans that look like repository paths.
+function extractProseReferences(line: string): string[] {
+  const references: string[] = []
+  for (const match of line.matchAll(/\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g)) {
+    const target = match[1]
+    if (/^(?:[a-z]+:|#|\/\/|<)/i.test(target) || !isRelativePathTarget(target)) continue
+    references.push(safeDecode(target))
+  }
+  for (const match of line.matchAll(/`([^`\s]+)`/g)) {
+    const candidate = match[1]
+    if (/[<>*{}$~|=,:;()[\]@\\]/.test(candidate) || /^[-/.]/.test(candidate.replace(/^\.\.?\//, 'x'))) continue
+    // Framework names such as Node.js or Vue.js are prose, not files.
+    if (/^[A-Z][A-Za-z]*\.js$/.test(candidate)) continue
+    // Bare file names like `package.json` are usually generic mentions rather than repository paths.
+    if (!candidate.includes('/')) continue
+    if (getLanguage(candidate) !== null || candidate.endsWith('/')) references.push(candidate)
+  }
+  return references
+}
+
+// Link targets without a scheme are only repository paths when they are not an email address or a host.
+function isRelativePathTarget(target: string): boolean {
+  if (target.includes('@') || /^www\./i.test(target)) return false
+  const [first, ...rest] = target.replace(/^(?:\.\.?\/)+/, '').split(/[/?#]/)
+  if (target.startsWith('.') || !HOSTNAME_SEGMENT.test(first)) return true
+  // `docs.example.com/guide` is a host; a bare `notes.com` is one only when the suffix is not a file extension.
+  if (rest.length > 0) return false
+  return getLanguage(first) !== null || !COMMON_TLDS.has(first.slice(first.lastIndexOf('.') + 1).toLowerCase())
+}
+
+function parseScriptInvocation(command: string): string | null {
+  const match = command.match(/^(npm|yarn|pnpm|bun)\s+(?:run(?:-script)?\s+)?([\w:.-]+)/)
+  if (!match) return null
+  const [, manager, name] = match
+  const explicitRun = /^\S+\s+run(?:-script)?\s/.test(command)
+  if (manager === 'npm' && !explicitRun) {
+    // npm only forwards a handful of bare commands to scripts.
+    return ['test', 't', 'start', 'stop', 'restart'].includes(name) ? (name === 't' ? 'test' : name) : null
+  }
+  if (manager === 'bun' && !explicitRun) return null
+  if (!explicitRun && (PACKAGE_MANAGER_COMMANDS.has(name) || NPM_LIFECYCLE_DEFAULTS.has(name))) return null
+  return name
+}
+
+function parseEntrypoint(command: string): string | null {
+  const direct = command.match(/^\.\/([\w./-]+)/)?.[1]
+  if (direct) return direct
+  const interpreted = command.match(/^(?:python3?|node|deno run|tsx|ts-node|bash|sh|ruby|php)\s+(?:-[\w-]+\s+)*([\w./-]+\.(?:py|js|mjs|cjs|ts|sh|rb|php))\b/)?.[1]
+  if (interpreted) return interpreted
+  return command.match(/^go\s+run\s+(\.\/[\w./-]+)/)?.[1] ?? null
+}
+
+function collectScripts(samples: Array<{ path: string; content: string }>): Map<string, Set<string>> {
+  const scripts = new Map<string, Set<string>>()
+  for (const sample of samples) {
+    if ((sample.path.split('/').pop() ?? '') !== 'package.json') continue
+    try {
+      const data = JSON.parse(sample.content) as { scripts?: Record<string, string> }
+      scripts.set(dirname(sample.path), new Set(Object.keys(data.scripts ?? {})))
+    } catch {
+      // Unparseable manifest: scripts for this directory stay unchecked.
+    }
+  }
+  return scripts
+}
+
+function collectMakeTargets(samples: Array<{ path: string; content: string }>): Set<string> | null {
+  const makefile = samples.find((sample) => /^(?:GNU)?[Mm]akefile$/.test(sample.path))
+  if (!makefile) return null
+  return new Set([...makefile.content.matchAll(/^([\w-]+)\s*:(?!=)/gm)].map((match) => match[1]))
+}
+
+function nearestScripts(path: string, scripts: Map<string, Set<string>>): Set<string> | null {
+  let directory = dirname(path)
+  while (true) {
+    const found = scripts.get(directory)
+    if (found) return found
+    if (directory === '') return null
+    directory = dirname(directory)
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURI(value)
+  } catch {
+    return value
+  }
+}
+
+function compact(value: string): string {
+  return value.length > 80 ? `${value.slice(0, 77)}...` : value
+}
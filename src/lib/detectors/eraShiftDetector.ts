@@ -0,0 +1,168 @@
+import type { SlopIndicator, GitHubCommit } from '../types'
+import { average, boundedScale, ratio } from '../scoring'
+import { DEFAULT_RULES, type RuleCatalog } from '../rules'
+import { describeCommitStyle } from './commitAnalyzer'
+import { isBotCommit } from './commitClassifier'
+import type { Detector } from './registry'
+
+const LLM_ERA_START = new Date('2022-11-30T00:00:00.000Z').getTime()
+const MIN_ERA_COMMITS = 10
+const ONSET_WINDOW = 10
+
+interface EraProfile {
+  commits: number
+  styleRate: number
+  medianLength: number
+  tinyGapRatio: number
+  addedFilesPerCommit: number
+}
+
+export function detectStyleShift(
+  commits: GitHubCommit[],
+  options: { segmentStarts?: string[]; detailedCommits?: GitHubCommit[]; rules?: RuleCatalog } = {}
+): {
+  hasBaseline: boolean
+  preEraCommits: number
+  postEraCommits: number
+  styleShiftSignal: number
+  onsetDate?: string
+  indicators: SlopIndicator[]
+} {
+  const segmentStarts = new Set(options.segmentStarts ?? [])
+  const rules = options.rules ?? DEFAULT_RULES
+  const dated = commits
+    .filter((commit) => !isBotCommit(commit))
+    .map((commit) => ({ commit, time: new Date(commit.commit.author.date).getTime() }))
+    .filter((entry) => !Number.isNaN(entry.time))
+  const pre = dated.filter((entry) => entry.time < LLM_ERA_START)
+  const post = dated.filter((entry) => entry.time >= LLM_ERA_START)
+  const indicators: SlopIndicator[] = []
+
+  if (pre.length < MIN_ERA_COMMITS || post.length < MIN_ERA_COMMITS) {
+    return {
+      hasBaseline: false,
+      preEraCommits: pre.length,
+      postEraCommits: post.length,
+      styleShiftSignal: 0,
+      indicators,
+    }
+  }
+
+  const detailed = options.detailedCommits ?? []
+  const preProfile = profileEra(pre.map((entry) => entry.commit), segmentStarts, detailed, rules)
+  const postProfile = profileEra(post.map((entry) => entry.commit), segmentStarts, detailed, rules)
+
+  const styleShift = boundedScale(postProfile.styleRate - preProfile.styleRate, 0.1, 0.4)
+  const lengthShift = boundedScale(ratio(postProfile.medianLength, Math.max(preProfile.medianLength, 1)), 1.3, 3)
+  const cadenceShift = boundedScale(postProfile.tinyGapRatio - preProfile.tinyGapRatio, 0.1, 0.4)
+  const additionShift = boundedScale(postProfile.addedFilesPerCommit - preProfile.addedFilesPerCommit, 2, 15)
+  const styleShiftSignal = Math.min(
+    (styleShift * 0.45) + (lengthShift * 0.2) + (cadenceShift * 0.2) + (additionShift * 0.15),
+    1
+  )
+
+  const onsetDate = styleShiftSignal > 0
+    ? estimateOnset(post.sort((a, b) => a.time - b.time), preProfile.styleRate, rules)
+    : undefined
+
+  if (styleShiftSignal >= 0.35) {
+    indicators.push({
+      type: 'Post-LLM Style Shift',
+      description: `Commit style changed after late 2022 (${Math.round(preProfile.styleRate * 100)}% → ${Math.round(postProfile.styleRate * 100)}% templated)${onsetDate ? `, onset around ${onsetDate.slice(0, 10)}` : ''}`,
+      severity: styleShiftSignal >= 0.6 ? 'high' : 'medium',
+    })
+  }
+
+  return {
+    hasBaseline: true,
+    preEraCommits: pre.length,
+    postEraCommits: post.length,
+    styleShiftSignal,
+    onsetDate,
+    indicators,
+  }
+}
+
+// A shift after late 2022 is evidence for AI assistance; an unchanged baseline is evidence against
+// commit-only signals, so it carries a negative model weight instead of damping other detectors.
+export const eraShiftDetector: Detector = {
+  id: 'era-shift',
+  version: 2,
+  inputs: ['commits', 'commitDetails'],
+  signals: [
+    { id: 'styleShiftSignal', weight: 0.06, group: 'commits', notes: 'Commit style, length and cadence changing after late 2022' },
+    { id: 'stableBaselineSignal', weight: -0.1, group: 'commits', notes: 'Commit style unchanged across a pre- and post-2022 history' },
+  ],
+  run: ({ commits, commitDetails, rules }) => {
+    const result = detectStyleShift(commits!.list, { segmentStarts: commits!.segmentStarts, detailedCommits: commitDetails, rules })
+    const stableBaselineSignal = result.hasBaseline ? 1 - boundedScale(result.styleShiftSignal, 0.05, 0.2) : 0
+    return {
+      signals: { styleShiftSignal: result.styleShiftSignal, stableBaselineSignal },
+      indicators: [
+        ...result.indicators,
+        ...(stableBaselineSignal >= 0.5
+          ? [
+              {
+                type: 'Stable Pre-LLM Baseline',
+                description: `Commit style unchanged across ${result.preEraCommits} pre- and ${result.postEraCommits} post-2022 commits`,
+                severity: 'low',
+              } as SlopIndicator,
+            ]
+          : []),
+      ],
+      featureValues: {
+        preEraCommits: result.preEraCommits,
+        postEraCommits: result.postEraCommits,
+      },
+      diagnostics: { styleShiftOnset: result.onsetDate },
+    }
+  },
+}
+
+function profileEra(commits: GitHubCommit[], segmentStarts: Set<string>, detailed: GitHubCommit[], rules: RuleCatalog): EraProfile {
+  const shas = new Set(commits.map((commit) => commit.sha))
+  const gaps: number[] = []
+  let previousTime: number | null = null
+
+  for (const commit of commits) {
+    const time = new Date(commit.commit.author.date).getTime()
+    if (segmentStarts.has(commit.sha)) previousTime = null
+    if (previousTime !== null) gaps.push(Math.abs(previousTime - time) / 3600000)
+    previousTime = time
+  }
+
+  const detailedInEra = detailed.filter((commit) => shas.has(commit.sha))
+  return {
+    commits: commits.length,
+    styleRate: average(commits.map((commit) => styleScore(commit.commit.message, rules))),
+    medianLength: median(commits.map((commit) => commit.commit.message.trim().length)),
+    tinyGapRatio: ratio(gaps.filter((gap) => gap <= 1).length, gaps.length),
+    addedFilesPerCommit: average(
+      detailedInEra.map((commit) => (commit.files ?? []).filter((file) => file.status === 'added').length)
+    ),
+  }
+}
+
+function styleScore(message: string, rules: RuleCatalog): number {
+  const style = describeCommitStyle(message, rules)
+  return average([style.conventional, style.narrative, style.structuredBody, style.long].map(Number))
+}
+
+function estimateOnset(post: Array<{ commit: GitHubCommit; time: number }>, baselineRate: number, rules: RuleCatalog): string | undefined {
+  const windowSize = Math.min(ONSET_WINDOW, post.length)
+  for (let start = 0; start + windowSize <= post.length; start++) {
+    const window = post.slice(start, start + windowSize)
+    const rate = average(window.map((entry) => styleScore(entry.commit.commit.message, rules)))
+    if (rate >= baselineRate + 0.15) {
+      return new Date(window[0].time).toISOString()
+    }
+  }
+  return undefined
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = values.slice().sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
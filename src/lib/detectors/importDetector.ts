@@ -0,0 +1,409 @@
+import type { FileNode, SlopIndicator } from '../types'
+import { boundedScale } from '../scoring'
+import type { Detector } from './registry'
+import { getLanguage } from '../languages'
+import { dirname, joinPath } from '../paths'
+
+// The manifest that declares dependencies for sources in each checked language.
+const LANGUAGE_MANIFESTS: Record<string, string> = {
+  typescript: 'package.json',
+  javascript: 'package.json',
+  vue: 'package.json',
+  python: 'requirements.txt',
+  rust: 'Cargo.toml',
+  go: 'go.mod',
+}
+const MANIFEST_FILES = new Set(Object.values(LANGUAGE_MANIFESTS))
+const MAX_REPORTED_IMPORTS = 6
+
+const JS_EXTENSIONS = ['', '.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json', '.vue', '.svelte', '.css', '.scss', '.sass', '.less']
+const JS_IMPORT_PATTERNS = [
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+]
+const NODE_BUILTINS = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'constants', 'crypto', 'dgram',
+  'diagnostics_channel', 'dns', 'domain', 'events', 'fs', 'http', 'http2', 'https', 'inspector', 'module', 'net',
+  'os', 'path', 'perf_hooks', 'process', 'punycode', 'querystring', 'readline', 'repl', 'stream', 'string_decoder',
+  'sys', 'timers', 'tls', 'trace_events', 'tty', 'url', 'util', 'v8', 'vm', 'wasi', 'worker_threads', 'zlib',
+])
+
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'atexit', 'base64', 'binascii', 'bisect', 'builtins',
+  'bz2', 'calendar', 'cmath', 'cmd', 'codecs', 'collections', 'colorsys', 'concurrent', 'configparser', 'contextlib',
+  'contextvars', 'copy', 'csv', 'ctypes', 'dataclasses', 'datetime', 'decimal', 'difflib', 'dis', 'email', 'enum',
+  'errno', 'faulthandler', 'fcntl', 'filecmp', 'fileinput', 'fnmatch', 'fractions', 'ftplib', 'functools', 'gc',
+  'getpass', 'gettext', 'glob', 'graphlib', 'gzip', 'hashlib', 'heapq', 'hmac', 'html', 'http', 'imaplib',
+  'importlib', 'inspect', 'io', 'ipaddress', 'itertools', 'json', 'keyword', 'linecache', 'locale', 'logging',
+  'lzma', 'mailbox', 'marshal', 'math', 'mimetypes', 'mmap', 'multiprocessing', 'netrc', 'numbers', 'operator',
+  'os', 'pathlib', 'pdb', 'pickle', 'pkgutil', 'platform', 'plistlib', 'pprint', 'profile', 'pstats', 'pty', 'pwd',
+  'queue', 'random', 're', 'readline', 'reprlib', 'resource', 'runpy', 'sched', 'secrets', 'select', 'selectors',
+  'shelve', 'shlex', 'shutil', 'signal', 'site', 'smtplib', 'socket', 'socketserver', 'sqlite3', 'ssl', 'stat',
+  'statistics', 'string', 'struct', 'subprocess', 'sys', 'sysconfig', 'tarfile', 'tempfile', 'termios', 'textwrap',
+  'threading', 'time', 'timeit', 'tkinter', 'token', 'tokenize', 'tomllib', 'trace', 'traceback', 'tracemalloc',
+  'tty', 'turtle', 'types', 'typing', 'unicodedata', 'unittest', 'urllib', 'uuid', 'venv', 'warnings', 'wave',
+  'weakref', 'webbrowser', 'winreg', 'wsgiref', 'xml', 'xmlrpc', 'zipfile', 'zipimport', 'zlib', 'zoneinfo',
+  'setuptools', 'pkg_resources', 'distutils',
+])
+// Import names that differ from the distribution name listed in requirements.txt.
+const PYTHON_DISTRIBUTIONS: Record<string, string[]> = {
+  PIL: ['pillow'],
+  yaml: ['pyyaml'],
+  cv2: ['opencv-python', 'opencv-python-headless', 'opencv-contrib-python'],
+  sklearn: ['scikit-learn'],
+  skimage: ['scikit-image'],
+  bs4: ['beautifulsoup4'],
+  dateutil: ['python-dateutil'],
+  dotenv: ['python-dotenv'],
+  jwt: ['pyjwt'],
+  jose: ['python-jose'],
+  multipart: ['python-multipart'],
+  attr: ['attrs'],
+  Crypto: ['pycryptodome', 'pycrypto'],
+  OpenSSL: ['pyopenssl'],
+  git: ['gitpython'],
+  fitz: ['pymupdf'],
+  docx: ['python-docx'],
+  serial: ['pyserial'],
+  magic: ['python-magic'],
+  telegram: ['python-telegram-bot'],
+  discord: ['discord.py'],
+  google: ['protobuf'],
+}
+
+const RUST_BUILTINS = new Set(['std', 'core', 'alloc', 'crate', 'self', 'super', 'proc_macro', 'test'])
+
+interface GoModule {
+  directory: string
+  module: string
+  requires: string[]
+}
+
+// Each kind is keyed by the directory its manifest sits in; sources use the nearest one above them.
+interface Manifests {
+  npm: Map<string, Set<string>>
+  python: Map<string, Set<string>>
+  cargo: Map<string, Set<string>>
+  go: Map<string, GoModule>
+}
+
+interface ImportFinding {
+  path: string
+  specifier: string
+  kind: 'missing' | 'undeclared'
+}
+
+export function detectHallucinatedImports(
+  samples: Array<{ path: string; content: string }>,
+  files: FileNode[]
+): {
+  importSignal: number
+  checkedImports: number
+  missingLocalImports: number
+  undeclaredPackages: number
+  indicators: SlopIndicator[]
+} {
+  const paths = new Set(files.map((file) => file.path))
+  for (const file of files) {
+    const parts = file.path.split('/')
+    for (let i = 1; i < parts.length; i++) paths.add(parts.slice(0, i).join('/'))
+  }
+  const manifests = parseManifests(samples)
+  const findings: ImportFinding[] = []
+  let checkedImports = 0
+
+  for (const sample of samples) {
+    const language = getLanguage(sample.path)?.id
+    const checks = language === 'typescript' || language === 'javascript' || language === 'vue'
+      ? checkJavaScriptImports(sample, paths, manifests)
+      : language === 'python'
+        ? checkPythonImports(sample, paths, manifests)
+        : language === 'rust'
+          ? checkRustImports(sample, paths, manifests)
+          : language === 'go'
+            ? checkGoImports(sample, paths, manifests)
+            : { checked: 0, findings: [] }
+    checkedImports += checks.checked
+    findings.push(...checks.findings)
+  }
+
+  const missingLocalImports = findings.filter((finding) => finding.kind === 'missing').length
+  const undeclaredPackages = findings.filter((finding) => finding.kind === 'undeclared').length
+  // A missing relative import cannot build; an undeclared package may still resolve through a hoisted workspace.
+  const importSignal = boundedScale(missingLocalImports + (undeclaredPackages * 0.5), 0, 4)
+
+  const indicators: SlopIndicator[] = []
+  if (findings.length > 0) {
+    const affectedFiles = [...new Set(findings.map((finding) => finding.path))]
+    indicators.push({
+      type: 'Hallucinated Import',
+      description: `${missingLocalImports} import(s) of missing local paths and ${undeclaredPackages} undeclared package(s): ${findings
+        .slice(0, MAX_REPORTED_IMPORTS)
+        .map((finding) => `${finding.path} → ${finding.specifier}`)
+        .join(', ')}`,
+      severity: importSignal >= 0.6 ? 'high' : importSignal >= 0.25 ? 'medium' : 'low',
+      files: affectedFiles.slice(0, MAX_REPORTED_IMPORTS),
+    })
+  }
+
+  return {
+    importSignal,
+    checkedImports,
+    missingLocalImports,
+    undeclaredPackages,
+    indicators,
+  }
+}
+
+export const importDetector: Detector = {
+  id: 'imports',
+  version: 1,
+  inputs: ['tree', 'samples'],
+  signals: [
+    { id: 'importSignal', weight: 0.06, group: 'patterns', notes: 'Imports of local paths or packages that do not exist in the repository' },
+  ],
+  run: ({ tree, samples }) => {
+    const result = detectHallucinatedImports(samples!, tree!.files)
+    return {
+      signals: { importSignal: result.importSignal },
+      indicators: result.indicators,
+      featureValues: {
+        checkedImports: result.checkedImports,
+        missingLocalImports: result.missingLocalImports,
+        undeclaredPackages: result.undeclaredPackages,
+      },
+    }
+  },
+}
+
+export function isManifestFile(path: string): boolean {
+  return MANIFEST_FILES.has(path.split('/').pop() ?? path)
+}
+
+// Path of the manifest an import check on `path` would read, if the tree has one.
+export function nearestManifestPath(path: string, paths: Set<string>): string | null {
+  const manifest = LANGUAGE_MANIFESTS[getLanguage(path)?.id ?? '']
+  if (!manifest) return null
+  return nearestManifest(path, (directory) => {
+    const candidate = directory ? `${directory}/${manifest}` : manifest
+    return paths.has(candidate) ? candidate : undefined
+  })
+}
+
+function parseManifests(samples: Array<{ path: string; content: string }>): Manifests {
+  const manifests: Manifests = { npm: new Map(), python: new Map(), cargo: new Map(), go: new Map() }
+
+  for (const sample of samples) {
+    const name = sample.path.split('/').pop()
+    const directory = dirname(sample.path)
+    if (name === 'package.json') {
+      try {
+        const data = JSON.parse(sample.content) as Record<string, unknown>
+        const declared = new Set<string>()
+        if (typeof data.name === 'string') declared.add(data.name)
+        for (const field of ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']) {
+          const entries = data[field]
+          if (entries && typeof entries === 'object') Object.keys(entries).forEach((dependency) => declared.add(dependency))
+        }
+        manifests.npm.set(directory, declared)
+      } catch {
+        // Unparseable manifest: leave this directory unchecked rather than flag every import.
+      }
+    } else if (name === 'requirements.txt') {
+      const declared = new Set<string>()
+      for (const line of sample.content.split('\n')) {
+        const match = line.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/)
+        if (match && !line.trim().startsWith('-')) declared.add(normalizePythonName(match[1]))
+      }
+      manifests.python.set(directory, declared)
+    } else if (name === 'Cargo.toml') {
+      const declared = new Set<string>()
+      let inDependencies = false
+      for (const line of sample.content.split('\n')) {
+        const section = line.trim().match(/^\[([^\]]+)\]/)
+        if (section) {
+          const header = section[1].trim()
+          inDependencies = /(?:^|\.)(?:dev-|build-)?dependencies$/.test(header)
+          const inline = header.match(/(?:^|\.)(?:dev-|build-)?dependencies\.([\w-]+)$/)
+          if (inline) declared.add(inline[1].replace(/-/g, '_'))
+          continue
+        }
+        const packageName = line.match(/^\s*name\s*=\s*"([^"]+)"/)
+        if (packageName && !inDependencies) declared.add(packageName[1].replace(/-/g, '_'))
+        const dependency = line.match(/^\s*([\w-]+)\s*=/)
+        if (inDependencies && dependency) declared.add(dependency[1].replace(/-/g, '_'))
+      }
+      manifests.cargo.set(directory, declared)
+    } else if (name === 'go.mod') {
+      const module = sample.content.match(/^module\s+(\S+)/m)?.[1] ?? ''
+      const requires = [...sample.content.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v[\w.+-]+/gm)].map((match) => match[1])
+      manifests.go.set(directory, { directory, module, requires })
+    }
+  }
+
+  return manifests
+}
+
+function checkJavaScriptImports(
+  sample: { path: string; content: string },
+  paths: Set<string>,
+  manifests: Manifests
+): { checked: number; findings: ImportFinding[] } {
+  const specifiers = new Set<string>()
+  for (const pattern of JS_IMPORT_PATTERNS) {
+    for (const match of sample.content.matchAll(pattern)) specifiers.add(match[1])
+  }
+  const declared = nearestManifest(sample.path, (directory) => manifests.npm.get(directory))
+  const findings: ImportFinding[] = []
+  let checked = 0
+
+  for (const specifier of specifiers) {
+    if (specifier.startsWith('./') || specifier.startsWith('../')) {
+      checked++
+      const target = joinPath(dirname(sample.path), specifier.split('?')[0])
+      // TypeScript ESM sources import their own `.js` output names.
+      const base = target.replace(/\.(?:js|jsx|mjs|cjs)$/, '')
+      const found = [target, base].some((candidate) =>
+        JS_EXTENSIONS.some((extension) => paths.has(candidate + extension) || paths.has(`${candidate}/index${extension}`))
+      )
+      if (!found) findings.push({ path: sample.path, specifier, kind: 'missing' })
+      continue
+    }
+
+    // Path aliases, virtual modules and URL imports cannot be resolved from the tree alone.
+    if (!declared || /^(?:[@~#]\/|[a-z]+:|https?:|\/)/.test(specifier)) continue
+    const packageName = specifier.startsWith('@') ? specifier.split('/').slice(0, 2).join('/') : specifier.split('/')[0]
+    if (NODE_BUILTINS.has(packageName) || paths.has(packageName) || paths.has(`src/${packageName}`)) continue
+    checked++
+    if (!declared.has(packageName) && !declared.has(`@types/${packageName}`)) {
+      findings.push({ path: sample.path, specifier: packageName, kind: 'undeclared' })
+    }
+  }
+
+  return { checked, findings }
+}
+
+function checkPythonImports(
+  sample: { path: string; content: string },
+  paths: Set<string>,
+  manifests: Manifests
+): { checked: number; findings: ImportFinding[] } {
+  const findings: ImportFinding[] = []
+  let checked = 0
+  const modules = new Set<string>()
+
+  for (const match of sample.content.matchAll(/^\s*from\s+(\.+)([\w.]*)\s+import\s+([\w\s,()]+)/gm)) {
+    checked++
+    let directory = dirname(sample.path)
+    for (let level = 1; level < match[1].length; level++) directory = dirname(directory)
+    const target = joinPath(directory, match[2].replace(/\./g, '/'))
+    const candidates = match[2]
+      ? [target]
+      : match[3].replace(/[()]/g, '').split(',').map((name) => joinPath(directory, name.trim().split(/\s+/)[0]))
+    const missing = candidates.filter((candidate) => !paths.has(`${candidate}.py`) && !paths.has(candidate) && !paths.has(`${candidate}.pyi`))
+    // `from . import name` may import an attribute of __init__.py rather than a submodule.
+    if (missing.length > 0 && (match[2] || !paths.has(joinPath(directory, '__init__.py')))) {
+      findings.push({ path: sample.path, specifier: `${match[1]}${match[2]}`, kind: 'missing' })
+    }
+  }
+  for (const match of sample.content.matchAll(/^\s*(?:from\s+([A-Za-z_][\w.]*)\s+import|import\s+([A-Za-z_][\w.]*(?:\s*,\s*[A-Za-z_][\w.]*)*))/gm)) {
+    const names = match[1] ? [match[1]] : match[2].split(',').map((name) => name.trim())
+    names.forEach((name) => modules.add(name.split('.')[0]))
+  }
+
+  const requirements = nearestManifest(sample.path, (directory) => manifests.python.get(directory))
+  if (!requirements) return { checked, findings }
+  for (const module of modules) {
+    if (PYTHON_STDLIB.has(module) || isLocalPythonModule(module, sample.path, paths)) continue
+    checked++
+    const distributions = PYTHON_DISTRIBUTIONS[module] ?? [module]
+    const declared = distributions.some((distribution) => {
+      const normalized = normalizePythonName(distribution)
+      return [...requirements].some((entry) => entry === normalized || entry.startsWith(`${normalized}-`))
+    })
+    if (!declared) findings.push({ path: sample.path, specifier: module, kind: 'undeclared' })
+  }
+
+  return { checked, findings }
+}
+
+function checkRustImports(
+  sample: { path: string; content: string },
+  paths: Set<string>,
+  manifests: Manifests
+): { checked: number; findings: ImportFinding[] } {
+  const declared = nearestManifest(sample.path, (directory) => manifests.cargo.get(directory))
+  if (!declared) return { checked: 0, findings: [] }
+  const crates = new Set<string>()
+  for (const match of sample.content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:use\s+:{0,2}|extern\s+crate\s+)([A-Za-z_]\w*)/gm)) {
+    crates.add(match[1])
+  }
+
+  const declaredModules = new Set([...sample.content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)/gm)].map((match) => match[1]))
+  const findings: ImportFinding[] = []
+  let checked = 0
+  for (const crate of crates) {
+    if (RUST_BUILTINS.has(crate) || declaredModules.has(crate) || /^[A-Z]/.test(crate)) continue
+    const sourceRoot = sample.path.includes('/src/') ? sample.path.slice(0, sample.path.indexOf('/src/') + 4) : 'src'
+    if (paths.has(`${sourceRoot}/${crate}.rs`) || paths.has(`${sourceRoot}/${crate}`)) continue
+    checked++
+    if (!declared.has(crate)) findings.push({ path: sample.path, specifier: crate, kind: 'undeclared' })
+  }
+
+  return { checked, findings }
+}
+
+function checkGoImports(
+  sample: { path: string; content: string },
+  paths: Set<string>,
+  manifests: Manifests
+): { checked: number; findings: ImportFinding[] } {
+  const goModule = nearestManifest(sample.path, (directory) => manifests.go.get(directory))
+  if (!goModule) return { checked: 0, findings: [] }
+  const { directory, module, requires } = goModule
+  const imports = new Set<string>()
+  for (const block of sample.content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const match of block[1].matchAll(/"([^"]+)"/g)) imports.add(match[1])
+  }
+  for (const match of sample.content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) imports.add(match[1])
+
+  const findings: ImportFinding[] = []
+  let checked = 0
+  for (const specifier of imports) {
+    // Standard library paths have no dot in their first element.
+    if (!specifier.split('/')[0].includes('.')) continue
+    checked++
+    if (module && (specifier === module || specifier.startsWith(`${module}/`))) {
+      const relative = specifier.slice(module.length + 1)
+      if (relative && !paths.has(joinPath(directory, relative))) findings.push({ path: sample.path, specifier, kind: 'missing' })
+      continue
+    }
+    if (!requires.some((entry) => specifier === entry || specifier.startsWith(`${entry}/`))) {
+      findings.push({ path: sample.path, specifier, kind: 'undeclared' })
+    }
+  }
+
+  return { checked, findings }
+}
+
+function nearestManifest<T>(path: string, lookup: (directory: string) => T | undefined): T | null {
+  let directory = dirname(path)
+  while (true) {
+    const manifest = lookup(directory)
+    if (manifest) return manifest
+    if (directory === '') return null
+    directory = dirname(directory)
+  }
+}
+
+function isLocalPythonModule(module: string, path: string, paths: Set<string>): boolean {
+  const roots = ['', 'src', dirname(path)]
+  return roots.some((root) => {
+    const base = root ? `${root}/${module}` : module
+    return paths.has(`${base}.py`) || paths.has(base)
+  })
+}
+
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[._]/g, '-')
+}
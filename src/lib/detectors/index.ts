@@ -4,6 +4,16 @@ import { detectVerboseComments } from './commentDetector'
 import { detectBoilerplateStructure } from './structureDetector'
 import { detectCodePatterns } from './codePatternDetector'
 import { detectRepetition } from './repetitionDetector'
+import { analyzeDiffShapes } from './diffShapeDetector'
+import { classifyCommitMessage, isBotCommit } from './commitClassifier'
+import { detectStyleShift } from './eraShiftDetector'
+import { detectAssistantProse } from './proseDetector'
+import { measureCodeStylometry } from './stylometryDetector'
+import { detectHallucinatedImports } from './importDetector'
+import { checkDocConsistency } from './docConsistencyDetector'
+import { attributeAiTools } from './toolDetector'
+import { analyzeFileSamples } from './textPatternDetector'
+import { DETECTORS, DETECTOR_SIGNALS, runDetectors } from './registry'
 
 export {
   detectConfigFiles,
@@ -12,4 +22,19 @@ export {
   detectBoilerplateStructure,
   detectCodePatterns,
   detectRepetition,
+  analyzeDiffShapes,
+  classifyCommitMessage,
+  isBotCommit,
+  detectStyleShift,
+  detectAssistantProse,
+  measureCodeStylometry,
+  detectHallucinatedImports,
+  checkDocConsistency,
+  attributeAiTools,
+  analyzeFileSamples,
+  DETECTORS,
+  DETECTOR_SIGNALS,
+  runDetectors,
 }
+
+export type { Detector, DetectorContext, DetectorInput, DetectorOutput } from './registry'
@@ -0,0 +1,177 @@
+import type { SlopIndicator } from '../types'
+import { boundedScale, ratio } from '../scoring'
+import { getLanguage } from '../languages'
+
+const PROSE_LANGUAGES = ['markdown', 'restructuredtext']
+
+const BOILERPLATE_SECTIONS = [
+  /^(?:overview|about|introduction)$/,
+  /^(?:key )?features$/,
+  /^(?:tech(?:nology)? stack|built with)$/,
+  /^(?:prerequisites|requirements)$/,
+  /^(?:installation|setup|getting started|quick ?start)$/,
+  /^usage$/,
+  /^configuration$/,
+  /^(?:project structure|folder structure|architecture)$/,
+  /^(?:api(?: reference)?|endpoints)$/,
+  /^(?:testing|running tests)$/,
+  /^(?:deployment)$/,
+  /^roadmap$/,
+  /^contributing$/,
+  /^license$/,
+  /^(?:acknowledg(?:e)?ments|credits)$/,
+  /^(?:support|contact)$/,
+]
+
+const TELL_TALE_PATTERNS = [
+  /\bdelv(?:e|es|ing)\b/gi,
+  /\bseamless(?:ly)?\b/gi,
+  /\bleverag(?:e|es|ing)\b/gi,
+  /\brobust\b/gi,
+  /\bcomprehensive\b/gi,
+  /\bcutting[- ]edge\b/gi,
+  /\bempower(?:s|ing)?\b/gi,
+  /\bstreamlin(?:e|es|ed|ing)\b/gi,
+  /\belevat(?:e|es|ing)\b/gi,
+  /\bunleash(?:es|ing)?\b/gi,
+  /\bharness(?:es|ing)?\b/gi,
+  /\beffortless(?:ly)?\b/gi,
+  /\bintuitive\b/gi,
+  /\ba testament to\b/gi,
+  /\bin today's (?:fast-paced|digital)\b/gi,
+  /\btapestry\b/gi,
+  /\bgame[- ]changer\b/gi,
+  /\bsupercharg(?:e|es|ed|ing)\b/gi,
+  /\bblazing(?:ly)? fast\b/gi,
+  /\bstate[- ]of[- ]the[- ]art\b/gi,
+  /\bwhether you're\b/gi,
+  /\blook no further\b/gi,
+]
+
+// RST section adornment: one repeated punctuation character, at least as long as the title above it.
+const RST_ADORNMENT = /^([=\-~^"'`*+#:._])\1+\s*$/
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u
+const BADGE_PATTERN = /!\[[^\]]*\]\((?:https?:\/\/)?(?:img\.shields\.io|badge\.fury\.io|badgen\.net|github\.com\/[^)]+\/badge\.svg|[^)]*\/badges?\/)[^)]*\)/gi
+
+export function isProseFile(path: string): boolean {
+  return PROSE_LANGUAGES.includes(getLanguage(path)?.id ?? '')
+}
+
+export function detectAssistantProse(path: string, content: string): {
+  proseSignal: number
+  emojiHeaders: number
+  boilerplateSections: number
+  tellTaleWords: number
+  tricolons: number
+  emDashDensity: number
+  badges: number
+  indicators: SlopIndicator[]
+} {
+  const headings = getLanguage(path)?.id === 'restructuredtext' ? rstHeadings(content) : markdownHeadings(content)
+  const emojiHeaders = headings.filter((heading) => EMOJI_PATTERN.test(heading.slice(0, 4))).length
+  const boilerplateSections = countBoilerplateSections(headings)
+
+  const badges = content.match(BADGE_PATTERN)?.length ?? 0
+  const prose = content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(BADGE_PATTERN, ' ')
+    .replace(/^\s*#{1,6}\s+.*$/gm, ' ')
+  const words = prose.match(/[A-Za-z][A-Za-z'-]*/g)?.length ?? 0
+  const sentences = Math.max(prose.split(/[.!?]\s|\n\s*[-*]\s/).filter((part) => part.trim().length > 0).length, 1)
+
+  const tellTaleWords = TELL_TALE_PATTERNS.reduce((count, pattern) => count + (prose.match(pattern)?.length ?? 0), 0)
+  const tricolons = prose.match(/\b[\w-]+, [\w-]+,? and [\w-]+\b/g)?.length ?? 0
+  const emDashes = prose.match(/—/g)?.length ?? 0
+  const boldLeadBullets = prose.match(/^\s*[-*]\s+\*\*[^*]+\*\*\s*[:—-]/gm)?.length ?? 0
+  const emDashDensity = ratio(emDashes * 1000, Math.max(words, 1))
+
+  const perThousand = (count: number) => ratio(count * 1000, Math.max(words, 200))
+  const proseSignal = Math.min(
+    (boundedScale(emojiHeaders, 1, 5) * 0.22) +
+      (boundedScale(boilerplateSections, 3, 8) * 0.16) +
+      (boundedScale(perThousand(tellTaleWords), 2, 12) * 0.2) +
+      (boundedScale(ratio(tricolons, sentences), 0.05, 0.25) * 0.1) +
+      (boundedScale(emDashDensity, 3, 15) * 0.12) +
+      (boundedScale(badges, 3, 10) * 0.08) +
+      (boundedScale(boldLeadBullets, 3, 10) * 0.12),
+    1
+  )
+
+  const indicators: SlopIndicator[] = []
+  if (proseSignal >= 0.3) {
+    const evidence = [
+      emojiHeaders > 0 ? `${emojiHeaders} emoji header(s)` : '',
+      boilerplateSections >= 3 ? `${boilerplateSections} boilerplate sections` : '',
+      tellTaleWords > 0 ? `${tellTaleWords} tell-tale word(s)` : '',
+      tricolons > 0 ? `${tricolons} tricolon list(s)` : '',
+      emDashes > 0 ? `${Math.round(emDashDensity)} em-dashes/1k words` : '',
+      badges >= 3 ? `${badges} badges` : '',
+      boldLeadBullets >= 3 ? `${boldLeadBullets} bold-lead bullets` : '',
+    ].filter(Boolean)
+    indicators.push({
+      type: 'Assistant-style Prose',
+      description: `${path}: ${evidence.join(', ')}`,
+      severity: proseSignal >= 0.6 ? 'high' : 'medium',
+    })
+  }
+
+  return {
+    proseSignal,
+    emojiHeaders,
+    boilerplateSections,
+    tellTaleWords,
+    tricolons,
+    emDashDensity,
+    badges,
+    indicators,
+  }
+}
+
+// `# comment` lines inside fenced code blocks are shell or Python, not headings.
+function markdownHeadings(content: string): string[] {
+  const headings: string[] = []
+  let fence: string | null = null
+  for (const line of content.split('\n')) {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1]
+    if (marker && (fence === null || (marker[0] === fence[0] && marker.length >= fence.length))) {
+      fence = fence === null ? marker : null
+      continue
+    }
+    if (fence !== null) continue
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/)?.[1]
+    if (heading) headings.push(heading)
+  }
+  return headings
+}
+
+function rstHeadings(content: string): string[] {
+  const lines = content.split('\n').map((line) => line.trimEnd())
+  const headings: string[] = []
+  for (let i = 0; i < lines.length - 1; i++) {
+    const title = lines[i].trim()
+    if (!title || RST_ADORNMENT.test(title) || /^\s/.test(lines[i])) continue
+    if (RST_ADORNMENT.test(lines[i + 1]) && lines[i + 1].length >= [...lines[i]].length) headings.push(title)
+  }
+  return headings
+}
+
+// Counts canonical README sections that appear in their conventional order.
+function countBoilerplateSections(headings: string[]): number {
+  let lastIndex = -1
+  let inOrder = 0
+  for (const heading of headings) {
+    const normalized = heading
+      .replace(/\p{Extended_Pictographic}|\uFE0F/gu, '')
+      .replace(/[^\w\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase()
+    const index = BOILERPLATE_SECTIONS.findIndex((pattern) => pattern.test(normalized))
+    if (index > lastIndex) {
+      inOrder++
+      lastIndex = index
+    }
+  }
+  return inOrder
+}
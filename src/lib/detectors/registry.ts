@@ -0,0 +1,113 @@
+import type { DetectorDiagnostics, FileNode, GitHubCommit, QualitySummary, SlopIndicator } from '../types'
+import type { SignalSpec } from '../scoring'
+import type { RuleCatalog } from '../rules'
+import type { analyzeCommitMessages } from './commitAnalyzer'
+import { commitDetector } from './commitAnalyzer'
+import { diffShapeDetector } from './diffShapeDetector'
+import { textPatternDetector } from './textPatternDetector'
+import { stylometryDetector } from './stylometryDetector'
+import { importDetector } from './importDetector'
+import { docConsistencyDetector } from './docConsistencyDetector'
+import { repetitionDetector } from './repetitionDetector'
+import { structureDetector } from './structureDetector'
+import { configDetector } from './configDetector'
+import { eraShiftDetector } from './eraShiftDetector'
+
+export type DetectorInput = 'repo' | 'tree' | 'commits' | 'commitDetails' | 'samples'
+
+export interface DetectorContext {
+  repo?: { owner: string; repo: string; defaultBranch: string }
+  // `files` is the whole tree for existence checks; `analyzable` drops excluded and template paths.
+  tree?: { files: FileNode[]; analyzable: FileNode[] }
+  commits?: { list: GitHubCommit[]; segmentStarts: string[]; analysis: ReturnType<typeof analyzeCommitMessages> }
+  commitDetails?: GitHubCommit[]
+  samples?: Array<{ path: string; content: string }>
+  rules: RuleCatalog
+}
+
+export interface FileSignals {
+  commentSignal: number
+  proseSignal: number
+  matchedCommentLines: number
+  codePatternSignal: number
+  codePatternMatches: number
+  similarity: number
+}
+
+export interface DetectorOutput {
+  signals: Record<string, number>
+  indicators: SlopIndicator[]
+  featureValues?: Record<string, number>
+  diagnostics?: DetectorDiagnostics
+  files?: Record<string, Partial<FileSignals>>
+  quality?: { summary: QualitySummary; indicators: SlopIndicator[] }
+}
+
+export interface Detector {
+  id: string
+  version: number
+  inputs: DetectorInput[]
+  signals: SignalSpec[]
+  run: (context: DetectorContext) => DetectorOutput
+}
+
+// Signals are read-only past this point: anything that adjusts them belongs in a detector or the model.
+export interface DetectorRun {
+  signals: Readonly<Record<string, number>>
+  // Signals whose detector actually ran; unmeasured ones stay 0 but do not count as evidence.
+  measured: string[]
+  indicators: SlopIndicator[]
+  featureValues: Record<string, number>
+  diagnostics: DetectorDiagnostics
+  files: Record<string, Partial<FileSignals>>
+  quality?: { summary: QualitySummary; indicators: SlopIndicator[] }
+  versions: Record<string, number>
+}
+
+// Order decides how indicators are listed.
+export const DETECTORS: Detector[] = [
+  commitDetector,
+  diffShapeDetector,
+  textPatternDetector,
+  stylometryDetector,
+  importDetector,
+  docConsistencyDetector,
+  repetitionDetector,
+  structureDetector,
+  configDetector,
+  eraShiftDetector,
+]
+
+export const DETECTOR_SIGNALS: SignalSpec[] = DETECTORS.flatMap((detector) => detector.signals)
+
+export function runDetectors(context: DetectorContext, detectors: Detector[] = DETECTORS): DetectorRun {
+  const signals: Record<string, number> = Object.fromEntries(detectors.flatMap((detector) => detector.signals.map((spec) => [spec.id, 0])))
+  const result: DetectorRun = {
+    signals,
+    measured: [],
+    indicators: [],
+    featureValues: {},
+    diagnostics: {},
+    files: {},
+    versions: {},
+  }
+
+  for (const detector of detectors) {
+    if (!detector.inputs.every((input) => context[input] !== undefined)) continue
+    const output = detector.run(context)
+    for (const spec of detector.signals) {
+      signals[spec.id] = output.signals[spec.id] ?? 0
+      result.measured.push(spec.id)
+    }
+    result.indicators.push(...output.indicators.map((indicator) => ({ ...indicator, ruleIds: indicator.ruleIds ?? [detector.id] })))
+    Object.assign(result.featureValues, output.featureValues)
+    Object.assign(result.diagnostics, output.diagnostics)
+    for (const [path, signals] of Object.entries(output.files ?? {})) {
+      result.files[path] = { ...result.files[path], ...signals }
+    }
+    result.quality = output.quality ?? result.quality
+    result.versions[detector.id] = detector.version
+  }
+
+  return result
+}
@@ -1,47 +1,119 @@
-import type { SlopIndicator } from '../types'
-import { average, boundedScale, similarityCoefficient } from '../scoring'
+import type { SimilarFilePair, SlopIndicator } from '../types'
+import { average, boundedScale, ratio, round } from '../scoring'
+import type { Detector } from './registry'
+import { classifyFile } from '../languages'
+
+const SHINGLE_SIZE = 5
+const MIN_SHINGLES = 12
+const SIGNATURE_SIZE = 64
+const LSH_BANDS = 16
+const LSH_ROWS = SIGNATURE_SIZE / LSH_BANDS
+const NEAR_DUPLICATE_THRESHOLD = 0.5
+const MAX_REPORTED_PAIRS = 5
+
+const HASH_SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)))
 
 export function detectRepetition(samples: Array<{ path: string; content: string }>): {
   repetitionSignal: number
   averageSimilarity: number
+  fileSimilarity: Record<string, number>
+  similarPairs: SimilarFilePair[]
+  clusterSizes: number[]
   indicators: SlopIndicator[]
 } {
-  if (samples.length < 2) {
+  // Lockfiles and manifests share most of their shape by design.
+  const fingerprints = samples
+    .filter((sample) => classifyFile(sample.path) !== 'config')
+    .map((sample) => ({ path: sample.path, shingles: shingleHashes(normalizeContent(sample.content)) }))
+    .filter((entry) => entry.shingles.size >= MIN_SHINGLES)
+    .map((entry) => ({ path: entry.path, signature: minHashSignature(entry.shingles) }))
+
+  if (fingerprints.length < 2) {
     return {
       repetitionSignal: 0,
       averageSimilarity: 0,
+      fileSimilarity: {},
+      similarPairs: [],
+      clusterSizes: [],
       indicators: [],
     }
   }
 
-  const tokenSets = samples.map((sample) => tokenSet(normalizeContent(sample.content)))
-  const similarities: number[] = []
-
-  for (let i = 0; i < tokenSets.length; i++) {
-    for (let j = i + 1; j < tokenSets.length; j++) {
-      similarities.push(similarityCoefficient(tokenSets[i], tokenSets[j]))
-    }
+  const fileSimilarity: Record<string, number> = {}
+  const pairs: SimilarFilePair[] = []
+  for (const [i, j] of candidatePairs(fingerprints.map((entry) => entry.signature))) {
+    const similarity = estimateSimilarity(fingerprints[i].signature, fingerprints[j].signature)
+    const a = fingerprints[i].path
+    const b = fingerprints[j].path
+    fileSimilarity[a] = Math.max(fileSimilarity[a] ?? 0, similarity)
+    fileSimilarity[b] = Math.max(fileSimilarity[b] ?? 0, similarity)
+    pairs.push({ a, b, similarity })
   }
 
-  const avgSimilarity = average(similarities)
-  const repetitionSignal = boundedScale(avgSimilarity, 0.16, 0.5)
-  const indicators: SlopIndicator[] = []
+  const nearDuplicates = pairs
+    .filter((pair) => pair.similarity >= NEAR_DUPLICATE_THRESHOLD)
+    .sort((left, right) => right.similarity - left.similarity)
+  const clusterSizes = clusterPairs(nearDuplicates)
+  const clonedFiles = clusterSizes.reduce((sum, size) => sum + size, 0)
 
-  if (avgSimilarity >= 0.24) {
+  const averageSimilarity = average(fingerprints.map((entry) => fileSimilarity[entry.path] ?? 0))
+  const topSimilarity = average(nearDuplicates.slice(0, MAX_REPORTED_PAIRS).map((pair) => pair.similarity))
+  const repetitionSignal = Math.min(
+    (boundedScale(ratio(clonedFiles, fingerprints.length), 0.05, 0.4) * 0.6) +
+      (boundedScale(topSimilarity, NEAR_DUPLICATE_THRESHOLD, 0.9) * 0.4),
+    1
+  )
+
+  const indicators: SlopIndicator[] = []
+  if (nearDuplicates.length > 0) {
+    indicators.push({
+      type: 'High Cross-file Similarity',
+      description: `${clonedFiles} of ${fingerprints.length} sampled files form ${clusterSizes.length} near-duplicate cluster(s) (sizes ${clusterSizes.join(', ')})`,
+      severity: repetitionSignal >= 0.6 ? 'high' : repetitionSignal >= 0.3 ? 'medium' : 'low',
+    })
     indicators.push({
       type: 'High Cross-file Similarity',
-      description: `Average sampled similarity ${Math.round(avgSimilarity * 100)}%`,
-      severity: avgSimilarity >= 0.36 ? 'high' : 'medium',
+      description: `Closest clones: ${nearDuplicates
+        .slice(0, MAX_REPORTED_PAIRS)
+        .map((pair) => `${pair.a} ↔ ${pair.b} (${Math.round(pair.similarity * 100)}%)`)
+        .join(', ')}`,
+      severity: 'low',
     })
   }
 
   return {
     repetitionSignal,
-    averageSimilarity: avgSimilarity,
+    averageSimilarity,
+    fileSimilarity,
+    similarPairs: nearDuplicates.slice(0, MAX_REPORTED_PAIRS),
+    clusterSizes,
     indicators,
   }
 }
 
+export const repetitionDetector: Detector = {
+  id: 'repetition',
+  version: 1,
+  inputs: ['samples'],
+  signals: [
+    { id: 'repetitionSignal', weight: 0.1, group: 'repetition', notes: 'Similarity across sampled code files' },
+  ],
+  run: ({ samples }) => {
+    const result = detectRepetition(samples!)
+    return {
+      signals: { repetitionSignal: result.repetitionSignal },
+      indicators: result.indicators,
+      featureValues: {
+        averageSimilarity: round(result.averageSimilarity),
+        nearDuplicatePairs: result.similarPairs.length,
+        cloneClusters: result.clusterSizes.length,
+        largestCloneCluster: result.clusterSizes[0] ?? 0,
+      },
+      files: Object.fromEntries(Object.entries(result.fileSimilarity).map(([path, similarity]) => [path, { similarity }])),
+    }
+  },
+}
+
 function normalizeContent(content: string): string {
   return content
     .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, 'STR')
@@ -52,8 +124,103 @@ function normalizeContent(content: string): string {
     .toLowerCase()
 }
 
-function tokenSet(content: string): Set<string> {
-  const tokens = content.split(' ').filter((token) => token.length > 2)
-  const limited = tokens.slice(0, 500)
-  return new Set(limited)
+function shingleHashes(content: string): Set<number> {
+  const tokens = content.split(' ').filter(Boolean)
+  const hashes = new Set<number>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    hashes.add(hashString(tokens.slice(i, i + SHINGLE_SIZE).join(' ')))
+  }
+  return hashes
+}
+
+function minHashSignature(shingles: Set<number>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff)
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ HASH_SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature
+}
+
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) equal++
+  }
+  return equal / SIGNATURE_SIZE
+}
+
+// Locality-sensitive hashing: only files sharing at least one identical band are compared.
+function candidatePairs(signatures: Uint32Array[]): Array<[number, number]> {
+  const seen = new Set<string>()
+  const pairs: Array<[number, number]> = []
+
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const buckets = new Map<string, number[]>()
+    signatures.forEach((signature, index) => {
+      const key = Array.from(signature.subarray(band * LSH_ROWS, (band + 1) * LSH_ROWS)).join(',')
+      const bucket = buckets.get(key) ?? []
+      bucket.push(index)
+      buckets.set(key, bucket)
+    })
+
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const key = `${bucket[i]}:${bucket[j]}`
+          if (seen.has(key)) continue
+          seen.add(key)
+          pairs.push([bucket[i], bucket[j]])
+        }
+      }
+    }
+  }
+
+  return pairs
+}
+
+function clusterPairs(pairs: SimilarFilePair[]): number[] {
+  const parent = new Map<string, string>()
+  const find = (path: string): string => {
+    const next = parent.get(path) ?? path
+    if (next === path) return path
+    const root = find(next)
+    parent.set(path, root)
+    return root
+  }
+
+  for (const pair of pairs) {
+    const rootA = find(pair.a)
+    const rootB = find(pair.b)
+    if (rootA !== rootB) parent.set(rootA, rootB)
+  }
+
+  const sizes = new Map<string, number>()
+  for (const path of new Set(pairs.flatMap((pair) => [pair.a, pair.b]))) {
+    const root = find(path)
+    sizes.set(root, (sizes.get(root) ?? 0) + 1)
+  }
+
+  return [...sizes.values()].sort((a, b) => b - a)
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function mix32(value: number): number {
+  let hash = value
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return hash >>> 0
 }
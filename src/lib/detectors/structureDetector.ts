@@ -1,5 +1,6 @@
 import type { FileNode, SlopIndicator } from '../types'
 import { boundedScale, ratio } from '../scoring'
+import type { Detector } from './registry'
 
 export function detectBoilerplateStructure(files: FileNode[]): {
   uniformitySignal: number
@@ -62,6 +63,23 @@ export function detectBoilerplateStructure(files: FileNode[]): {
   }
 }
 
+export const structureDetector: Detector = {
+  id: 'structure',
+  version: 1,
+  inputs: ['tree'],
+  signals: [
+    { id: 'structureUniformitySignal', weight: 0.08, group: 'structure', notes: 'Uniform scaffold/module shape patterns' },
+  ],
+  run: ({ tree }) => {
+    const result = detectBoilerplateStructure(tree!.analyzable)
+    return {
+      signals: { structureUniformitySignal: result.uniformitySignal },
+      indicators: result.indicators,
+      featureValues: { repeatedShapes: result.repeatedShapes },
+    }
+  },
+}
+
 function detectRepeatedFileNames(files: FileNode[]): number {
   const fileNameCounts = new Map<string, number>()
   let fileCount = 0
@@ -0,0 +1,235 @@
+import type { SlopIndicator } from '../types'
+import { average, boundedScale, ratio, round, stddev } from '../scoring'
+import type { Detector } from './registry'
+import { getLanguage, scanSource } from '../languages'
+import type { CommentLine } from '../languages'
+
+const INDENT_LANGUAGES = ['python', 'ruby', 'elixir']
+const SKIPPED_LANGUAGES = ['html', 'css', 'dockerfile', 'makefile', 'sql']
+const MIN_FUNCTIONS = 6
+const MIN_TRIVIAL_FUNCTIONS = 3
+const TRIVIAL_FUNCTION_LINES = 4
+const MIN_DISTINCT_IDENTIFIERS = 40
+const MAX_FUNCTION_SCAN = 400
+
+const FUNCTION_PATTERNS = [
+  /\bfunction\b[\s*]*[\w$]*\s*\(/,
+  /=>\s*\{\s*$/,
+  /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:const\s+)?(?:unsafe\s+)?fn\s+\w+/,
+  /^\s*func\b/,
+  /^\s*(?:[\w@]+\s+)*fun\s+[\w.<>]+\s*\(/,
+  /^\s*(?:async\s+)?def\s+\w+/,
+  /^\s*(?:(?:public|private|protected|internal|static|async|override|final|virtual|abstract|synchronized)\s+)*[\w<>[\],.?]+(?:\s+[\w<>[\],.?]+)?\s*\([^;]*\)\s*(?:(?::|->)\s*[^{;=]+)?\{\s*$/,
+]
+const CONTROL_PATTERN = /^\s*(?:\}\s*)?(?:if|for|while|switch|catch|else|do|try|return|with|using|lock|foreach|match|loop|select|when|new)\b/
+
+const DEFENSIVE_PATTERNS = [
+  /[!=]==?\s*(?:null|undefined|None|nil)\b/g,
+  /\b(?:null|undefined|None|nil)\s*[!=]==?/g,
+  /\bis(?:\s+not)?\s+None\b/g,
+  /\btypeof\s+[\w.$]+\s*[!=]==?/g,
+  /\bisinstance\s*\(/g,
+  /\bArray\.isArray\s*\(/g,
+  /\bNumber\.is(?:Finite|NaN|Integer)\s*\(/g,
+  /\braise\s+(?:Value|Type)Error\b/g,
+  /\bthrow\s+new\s+(?:Type|Range)?Error\s*\(/g,
+  /\btry\s*[:{]/g,
+]
+
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'do', 'return', 'function', 'const', 'let', 'var', 'new', 'this', 'self',
+  'class', 'def', 'fn', 'func', 'fun', 'import', 'from', 'export', 'default', 'true', 'false', 'null',
+  'undefined', 'None', 'True', 'False', 'nil', 'async', 'await', 'try', 'catch', 'finally', 'throw',
+  'raise', 'except', 'in', 'of', 'is', 'not', 'and', 'or', 'public', 'private', 'protected', 'static',
+  'void', 'int', 'string', 'bool', 'type', 'interface', 'struct', 'impl', 'pub', 'mut', 'use', 'package',
+  'end', 'then', 'elif', 'switch', 'case', 'break', 'continue', 'typeof', 'instanceof', 'with', 'as',
+  'lambda', 'yield', 'extends', 'implements', 'super', 'readonly', 'number', 'boolean',
+])
+
+interface FunctionSpan {
+  start: number
+  lines: number
+  documented: boolean
+}
+
+export function measureCodeStylometry(samples: Array<{ path: string; content: string }>): {
+  stylometrySignal: number
+  functions: number
+  functionLengthCv: number
+  commentRatio: number
+  trivialDocCoverage: number
+  meanIdentifierLength: number
+  identifierEntropy: number
+  defensiveChecksPerFunction: number
+  indicators: SlopIndicator[]
+} {
+  const functions: FunctionSpan[] = []
+  const identifierCounts = new Map<string, number>()
+  let codeLines = 0
+  let commentLines = 0
+  let defensiveChecks = 0
+
+  for (const sample of samples) {
+    const language = getLanguage(sample.path)
+    if (!language || language.kind !== 'code' || SKIPPED_LANGUAGES.includes(language.id)) continue
+
+    const { code, comments } = scanSource(sample.content, language)
+    const commentsByLine = new Map(comments.map((comment) => [comment.line, comment]))
+    codeLines += code.filter((line) => line.trim().length > 0).length
+    commentLines += comments.filter((comment) => comment.text.length > 0).length
+    functions.push(...findFunctions(code, commentsByLine, INDENT_LANGUAGES.includes(language.id)))
+
+    for (const line of code) {
+      defensiveChecks += DEFENSIVE_PATTERNS.reduce((count, pattern) => count + (line.match(pattern)?.length ?? 0), 0)
+      for (const identifier of line.match(/[A-Za-z_$][\w$]*/g) ?? []) {
+        if (identifier.length < 2 || KEYWORDS.has(identifier)) continue
+        identifierCounts.set(identifier, (identifierCounts.get(identifier) ?? 0) + 1)
+      }
+    }
+  }
+
+  const lengths = functions.map((fn) => fn.lines)
+  const meanLength = average(lengths)
+  const functionLengthCv = meanLength > 0 ? stddev(lengths) / meanLength : 0
+  const trivial = functions.filter((fn) => fn.lines <= TRIVIAL_FUNCTION_LINES)
+  const trivialDocCoverage = ratio(trivial.filter((fn) => fn.documented).length, trivial.length)
+  const commentRatio = ratio(commentLines, codeLines + commentLines)
+  const meanIdentifierLength = average([...identifierCounts.keys()].map((identifier) => identifier.length))
+  const identifierEntropy = normalizedEntropy([...identifierCounts.values()])
+  const defensiveChecksPerFunction = ratio(defensiveChecks, Math.max(functions.length, 1))
+
+  // Low variance in function length only means something once there are enough functions to compare.
+  const uniformitySignal = functions.length >= MIN_FUNCTIONS ? boundedScale(1 - functionLengthCv, 0.35, 0.75) : 0
+  const docSignal = trivial.length >= MIN_TRIVIAL_FUNCTIONS ? boundedScale(trivialDocCoverage, 0.3, 0.8) : 0
+  // Templated code reuses a narrow vocabulary, which skews identifier frequencies away from uniform.
+  const vocabularySignal = identifierCounts.size >= MIN_DISTINCT_IDENTIFIERS ? boundedScale(1 - identifierEntropy, 0.08, 0.2) : 0
+  const stylometrySignal = codeLines === 0
+    ? 0
+    : Math.min(
+        (uniformitySignal * 0.25) +
+          (boundedScale(commentRatio, 0.2, 0.5) * 0.2) +
+          (docSignal * 0.2) +
+          (boundedScale(meanIdentifierLength, 7, 12) * 0.1) +
+          (vocabularySignal * 0.1) +
+          (boundedScale(defensiveChecksPerFunction, 0.5, 2) * 0.15),
+        1
+      )
+
+  const indicators: SlopIndicator[] = []
+  if (stylometrySignal >= 0.45) {
+    const evidence = [
+      uniformitySignal >= 0.5 ? `uniform function lengths (CV ${functionLengthCv.toFixed(2)})` : '',
+      commentRatio >= 0.25 ? `${Math.round(commentRatio * 100)}% comment lines` : '',
+      docSignal >= 0.5 ? `${Math.round(trivialDocCoverage * 100)}% of trivial functions documented` : '',
+      meanIdentifierLength >= 9 ? `mean identifier length ${meanIdentifierLength.toFixed(1)}` : '',
+      vocabularySignal >= 0.5 ? `identifier entropy ${identifierEntropy.toFixed(2)}` : '',
+      defensiveChecksPerFunction >= 1 ? `${defensiveChecksPerFunction.toFixed(1)} defensive checks per function` : '',
+    ].filter(Boolean)
+    indicators.push({
+      type: 'Uniform Code Style',
+      description: `Sampled code reads machine-regular: ${evidence.join(', ')}`,
+      severity: stylometrySignal >= 0.65 ? 'medium' : 'low',
+    })
+  }
+
+  return {
+    stylometrySignal,
+    functions: functions.length,
+    functionLengthCv,
+    commentRatio,
+    trivialDocCoverage,
+    meanIdentifierLength,
+    identifierEntropy,
+    defensiveChecksPerFunction,
+    indicators,
+  }
+}
+
+export const stylometryDetector: Detector = {
+  id: 'stylometry',
+  version: 1,
+  inputs: ['samples'],
+  signals: [
+    { id: 'stylometrySignal', weight: 0.05, group: 'patterns', notes: 'Uniform function lengths, dense comments, a narrow identifier vocabulary and defensive checks in sampled code' },
+  ],
+  run: ({ samples }) => {
+    const result = measureCodeStylometry(samples!)
+    return {
+      signals: { stylometrySignal: result.stylometrySignal },
+      indicators: result.indicators,
+      featureValues: {
+        sampledFunctions: result.functions,
+        functionLengthCv: round(result.functionLengthCv),
+        commentRatio: round(result.commentRatio),
+        trivialDocCoverage: round(result.trivialDocCoverage),
+        meanIdentifierLength: round(result.meanIdentifierLength),
+        identifierEntropy: round(result.identifierEntropy),
+        defensiveChecksPerFunction: round(result.defensiveChecksPerFunction),
+      },
+    }
+  },
+}
+
+function findFunctions(code: string[], comments: Map<number, CommentLine>, indentBased: boolean): FunctionSpan[] {
+  const spans: FunctionSpan[] = []
+  for (let start = 0; start < code.length; start++) {
+    const line = code[start]
+    if (CONTROL_PATTERN.test(line) || !FUNCTION_PATTERNS.some((pattern) => pattern.test(line))) continue
+
+    const end = indentBased ? indentedEnd(code, start) : braceEnd(code, start)
+    if (end === null) continue
+    const lines = code.slice(start, end + 1).filter((entry) => entry.trim().length > 0).length
+    // Doc comments sit above the signature, or just inside it for docstrings.
+    const documented = comments.has(start - 1) || Boolean(indentBased && comments.get(start + 1)?.doc)
+    spans.push({ start, lines, documented })
+  }
+  return spans
+}
+
+function braceEnd(code: string[], start: number): number | null {
+  let depth = 0
+  let opened = false
+  for (let index = start; index < Math.min(code.length, start + MAX_FUNCTION_SCAN); index++) {
+    for (const char of code[index]) {
+      if (char === '{') {
+        depth++
+        opened = true
+      } else if (char === '}') {
+        depth--
+      }
+    }
+    if (opened && depth <= 0) return index
+    // Declarations without a body (interfaces, abstract members) never open a brace.
+    if (!opened && index - start >= 2) return null
+  }
+  return null
+}
+
+function indentedEnd(code: string[], start: number): number | null {
+  const baseIndent = indentation(code[start])
+  let end: number | null = null
+  for (let index = start + 1; index < Math.min(code.length, start + MAX_FUNCTION_SCAN); index++) {
+    const line = code[index]
+    if (line.trim().length === 0) continue
+    if (indentation(line) <= baseIndent) {
+      // Ruby and Elixir close the body with a keyword at the signature's indentation.
+      return /^\s*end\b/.test(line) ? index : end
+    }
+    end = index
+  }
+  return end
+}
+
+function indentation(line: string): number {
+  return line.match(/^\s*/)?.[0].replace(/\t/g, '    ').length ?? 0
+}
+
+function normalizedEntropy(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (counts.length < 2 || total === 0) return 0
+  const entropy = counts.reduce((sum, count) => {
+    const p = count / total
+    return sum - (p * Math.log2(p))
+  }, 0)
+  return entropy / Math.log2(counts.length)
+}
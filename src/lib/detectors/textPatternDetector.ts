@@ -0,0 +1,193 @@
+import type { QualitySummary, SlopIndicator } from '../types'
+import { average, boundedScale, ratio, round } from '../scoring'
+import { getLanguage } from '../languages'
+import { DEFAULT_RULES, type RuleCatalog } from '../rules'
+import { detectVerboseComments } from './commentDetector'
+import { detectCodePatterns } from './codePatternDetector'
+import { detectAssistantProse, isProseFile } from './proseDetector'
+import type { Detector, FileSignals } from './registry'
+
+const MAX_STUB_INDICATORS = 5
+
+// Comment, marker and prose checks share one pass over each sample.
+export const textPatternDetector: Detector = {
+  id: 'text-patterns',
+  version: 1,
+  inputs: ['samples'],
+  signals: [
+    { id: 'commentPatternSignal', weight: 0.12, group: 'patterns', notes: 'Prompt-like comments and AI boilerplate phrasing' },
+    { id: 'proseSignal', weight: 0.07, group: 'patterns', notes: 'Assistant-style README and documentation prose' },
+  ],
+  run: ({ samples, rules }) => {
+    const result = analyzeFileSamples(samples!, rules)
+    return {
+      signals: { commentPatternSignal: result.commentPatternSignal, proseSignal: result.proseSignal },
+      indicators: result.indicators,
+      featureValues: {
+        proseFiles: result.proseFiles,
+        verboseCommentBlocks: result.verboseCommentBlocks,
+        matchedCommentLines: result.totalMatchedCommentLines,
+        commentHitRate: round(result.commentHitRate),
+        codePatternMatches: result.codePatternTotalMatches,
+        stubMatches: result.quality.stubMatches,
+      },
+      files: Object.fromEntries(result.fileSignals.map(({ path, ...signals }) => [path, signals])),
+      quality: { summary: result.quality, indicators: result.qualityIndicators },
+    }
+  },
+}
+
+export function analyzeFileSamples(samples: Array<{ path: string; content: string }>, rules: RuleCatalog = DEFAULT_RULES): {
+  commentPatternSignal: number
+  proseSignal: number
+  proseFiles: number
+  totalMatchedCommentLines: number
+  verboseCommentBlocks: number
+  commentHitRate: number
+  codePatternTotalMatches: number
+  fileSignals: Array<{ path: string } & Omit<FileSignals, 'similarity'>>
+  quality: QualitySummary
+  indicators: SlopIndicator[]
+  qualityIndicators: SlopIndicator[]
+} {
+  let commentSignalTotal = 0
+  let commentSignalMax = 0
+  let commentSignalHits = 0
+  let totalMatchedCommentLines = 0
+  let codePatternSignalTotal = 0
+  let codePatternSignalMax = 0
+  let verboseCommentBlocks = 0
+  const codePatternFiles: Array<{ path: string; matches: number }> = []
+  let codePatternTotalMatches = 0
+  const fileSignals: Array<{ path: string } & Omit<FileSignals, 'similarity'>> = []
+  const proseSignals: number[] = []
+  const proseIndicators: SlopIndicator[] = []
+  const stubFiles: Array<{ path: string; matches: number; signal: number; indicators: SlopIndicator[] }> = []
+  const commentRuleIds = new Set<string>()
+  const markerRuleIds = new Set<string>()
+
+  for (const sample of samples) {
+    const language = getLanguage(sample.path)
+    const commentResult = language?.kind === 'code'
+      ? detectVerboseComments(sample.content, language, rules)
+      : { verboseBlocks: 0, matchedLines: 0, commentSignal: 0, indicators: [] as SlopIndicator[] }
+    const codePatternResult = detectCodePatterns(sample.path, sample.content, rules)
+    const proseResult = isProseFile(sample.path) ? detectAssistantProse(sample.path, sample.content) : null
+    for (const indicator of commentResult.indicators) indicator.ruleIds?.forEach((id) => commentRuleIds.add(id))
+    for (const indicator of codePatternResult.indicators) {
+      if (indicator.type === 'AI Boilerplate Trace') indicator.ruleIds?.forEach((id) => markerRuleIds.add(id))
+    }
+    if (proseResult) {
+      proseSignals.push(proseResult.proseSignal)
+      proseIndicators.push(...proseResult.indicators)
+    }
+    verboseCommentBlocks += commentResult.verboseBlocks
+    totalMatchedCommentLines += commentResult.matchedLines
+    commentSignalTotal += commentResult.commentSignal
+    commentSignalMax = Math.max(commentSignalMax, commentResult.commentSignal)
+    if (commentResult.matchedLines > 0) commentSignalHits++
+    codePatternSignalTotal += codePatternResult.signal
+    codePatternSignalMax = Math.max(codePatternSignalMax, codePatternResult.signal)
+    codePatternTotalMatches += codePatternResult.patternMatches
+    if (codePatternResult.patternMatches > 0) {
+      codePatternFiles.push({ path: sample.path, matches: codePatternResult.patternMatches })
+    }
+    if (codePatternResult.stubMatches > 0) {
+      stubFiles.push({
+        path: sample.path,
+        matches: codePatternResult.stubMatches,
+        signal: codePatternResult.qualitySignal,
+        indicators: codePatternResult.indicators.filter((indicator) => indicator.type === 'Placeholder Implementation'),
+      })
+    }
+    fileSignals.push({
+      path: sample.path,
+      commentSignal: commentResult.commentSignal,
+      proseSignal: proseResult?.proseSignal ?? 0,
+      matchedCommentLines: commentResult.matchedLines,
+      codePatternSignal: codePatternResult.signal,
+      codePatternMatches: codePatternResult.patternMatches,
+    })
+  }
+
+  const sampleCount = Math.max(samples.length, 1)
+  const commentAvg = ratio(commentSignalTotal, sampleCount)
+  const codePatternAvg = ratio(codePatternSignalTotal, sampleCount)
+  const commentHitRate = ratio(commentSignalHits, sampleCount)
+  const commentPatternSignal = clamp(
+    (commentAvg * 0.35) +
+      (commentSignalMax * 0.25) +
+      (codePatternAvg * 0.15) +
+      (codePatternSignalMax * 0.1) +
+      (boundedScale(commentHitRate, 0.08, 0.45) * 0.1) +
+      (boundedScale(totalMatchedCommentLines, 3, 24) * 0.25),
+    0,
+    1
+  )
+  const proseSignal = proseSignals.length > 0
+    ? clamp((Math.max(...proseSignals) * 0.6) + (average(proseSignals) * 0.4), 0, 1)
+    : 0
+  stubFiles.sort((a, b) => b.matches - a.matches)
+  const qualitySignal = stubFiles.length > 0
+    ? clamp((stubFiles[0].signal * 0.5) + (boundedScale(ratio(stubFiles.length, sampleCount), 0.05, 0.3) * 0.5), 0, 1)
+    : 0
+
+  const indicators: SlopIndicator[] = [
+    ...(totalMatchedCommentLines > 0
+      ? [
+          {
+            type: 'Prompt-like Comment Pattern',
+            description: `Detected ${totalMatchedCommentLines} AI-like comment lines across ${verboseCommentBlocks} block(s)`,
+            severity: totalMatchedCommentLines >= 8 ? 'high' : totalMatchedCommentLines >= 3 ? 'medium' : 'low',
+            ruleIds: [...commentRuleIds],
+          } as SlopIndicator,
+        ]
+      : []),
+    ...(codePatternTotalMatches > 0
+      ? [
+          {
+            type: 'AI Boilerplate Trace',
+            description: `${codePatternTotalMatches} prompt-like marker(s) across ${codePatternFiles.length} file(s)`,
+            severity: codePatternTotalMatches >= 12 ? 'high' : codePatternTotalMatches >= 4 ? 'medium' : 'low',
+            ruleIds: [...markerRuleIds],
+          } as SlopIndicator,
+          {
+            type: 'AI Boilerplate Trace',
+            description: `Top files: ${codePatternFiles
+              .sort((a, b) => b.matches - a.matches)
+              .slice(0, 3)
+              .map((entry) => `${entry.path} (${entry.matches})`)
+              .join(', ')}`,
+            severity: 'low',
+            files: codePatternFiles.slice(0, 3).map((entry) => entry.path),
+            ruleIds: [...markerRuleIds],
+          } as SlopIndicator,
+        ]
+      : []),
+    ...proseIndicators,
+  ]
+
+  return {
+    commentPatternSignal,
+    proseSignal,
+    proseFiles: proseSignals.length,
+    totalMatchedCommentLines,
+    verboseCommentBlocks,
+    commentHitRate,
+    codePatternTotalMatches,
+    fileSignals,
+    quality: {
+      score: Math.round(qualitySignal * 100),
+      stubMatches: stubFiles.reduce((sum, entry) => sum + entry.matches, 0),
+      stubFiles: stubFiles.map((entry) => entry.path),
+    },
+    indicators,
+    qualityIndicators: stubFiles.slice(0, MAX_STUB_INDICATORS).flatMap((entry) => entry.indicators),
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (value < min) return min
+  if (value > max) return max
+  return value
+}
@@ -0,0 +1,221 @@
+import type { AnalysisConfidence, FileNode, ToolAttribution, ToolEvidence } from '../types'
+import type { RuleCategory } from '../rules'
+
+interface ToolRule {
+  tool: string
+  name: string
+  paths: Array<{ pattern: RegExp; usage: string }>
+  mention: RegExp
+}
+
+const TOOL_RULES: ToolRule[] = [
+  {
+    tool: 'cursor',
+    name: 'Cursor',
+    paths: [
+      { pattern: /(?:^|\/)\.cursorrules$/, usage: 'project rules' },
+      { pattern: /(?:^|\/)\.cursor\/rules\//, usage: 'scoped rules' },
+      { pattern: /(?:^|\/)\.cursor\/(?:commands|prompts)\//, usage: 'custom commands' },
+      { pattern: /(?:^|\/)\.cursorignore$/, usage: 'context exclusions' },
+    ],
+    mention: /\bcursor (?:ai|agent|composer|ide|rules?)\b|\.cursorrules\b/i,
+  },
+  {
+    tool: 'copilot',
+    name: 'GitHub Copilot',
+    paths: [
+      { pattern: /(?:^|\/)\.github\/copilot-instructions\.md$|(?:^|\/)\.copilot-instructions$/, usage: 'repository instructions' },
+      { pattern: /(?:^|\/)\.github\/instructions\/[^/]+\.instructions\.md$/, usage: 'path-scoped instructions' },
+      { pattern: /(?:^|\/)\.github\/prompts\//, usage: 'prompt library' },
+      { pattern: /(?:^|\/)\.github\/chatmodes\//, usage: 'custom chat modes' },
+      { pattern: /(?:^|\/)copilot\.ya?ml$/, usage: 'copilot config' },
+    ],
+    mention: /\b(?:github )?copilot\b/i,
+  },
+  {
+    tool: 'claude',
+    name: 'Claude Code',
+    paths: [
+      { pattern: /(?:^|\/)CLAUDE(?:\.local)?\.md$/, usage: 'project memory' },
+      { pattern: /(?:^|\/)\.claude\/commands\//, usage: 'custom commands' },
+      { pattern: /(?:^|\/)\.claude\/agents\//, usage: 'sub-agents' },
+      { pattern: /(?:^|\/)\.claude\/(?:settings(?:\.local)?\.json|hooks\/)/, usage: 'agent settings' },
+    ],
+    mention: /\bclaude(?: code)?\b|\banthropic\b/i,
+  },
+  {
+    tool: 'aider',
+    name: 'Aider',
+    paths: [
+      { pattern: /(?:^|\/)\.aider\.conf\.ya?ml$/, usage: 'aider config' },
+      { pattern: /(?:^|\/)\.aider\.(?:chat|input)\.history\.md$/, usage: 'committed chat history' },
+      { pattern: /(?:^|\/)\.aiderignore$/, usage: 'context exclusions' },
+    ],
+    mention: /\baider\b/i,
+  },
+  {
+    tool: 'windsurf',
+    name: 'Windsurf',
+    paths: [
+      { pattern: /(?:^|\/)\.windsurfrules$/, usage: 'project rules' },
+      { pattern: /(?:^|\/)\.windsurf\/rules\//, usage: 'scoped rules' },
+      { pattern: /(?:^|\/)\.windsurf\/workflows\//, usage: 'workflows' },
+    ],
+    mention: /\bwindsurf\b|\bcodeium\b/i,
+  },
+  {
+    tool: 'continue',
+    name: 'Continue',
+    paths: [
+      { pattern: /(?:^|\/)\.continue\//, usage: 'continue config' },
+      { pattern: /(?:^|\/)\.continue(?:rc\.json|ignore)$/, usage: 'continue config' },
+    ],
+    mention: /\bcontinue\.dev\b|\bcontinue extension\b/i,
+  },
+  {
+    tool: 'opencode',
+    name: 'OpenCode',
+    paths: [
+      { pattern: /(?:^|\/)\.opencode\//, usage: 'opencode config' },
+      { pattern: /(?:^|\/)opencode\.jsonc?$/, usage: 'opencode config' },
+    ],
+    mention: /\bopencode\b/i,
+  },
+  {
+    tool: 'spec-driven',
+    name: 'Spec-driven workflow',
+    paths: [
+      { pattern: /(?:^|\/)openspec\//, usage: 'OpenSpec changes' },
+      { pattern: /(?:^|\/)\.specify\/|(?:^|\/)memory\/constitution\.md$/, usage: 'Spec Kit' },
+      { pattern: /(?:^|\/)\.kiro\/(?:specs|steering)\//, usage: 'Kiro specs' },
+      { pattern: /(?:^|\/)specs\/[^/]+\/(?:spec|plan|tasks)\.md$/, usage: 'spec/plan/tasks documents' },
+    ],
+    mention: /\bopenspec\b|\bspec[- ]kit\b|\bspec-driven\b|\/speckit\.|\bkiro\b/i,
+  },
+  {
+    tool: 'mcp',
+    name: 'MCP servers',
+    paths: [
+      { pattern: /(?:^|\/)\.mcp\.json$|(?:^|\/)mcp\.json$/, usage: 'MCP server config' },
+      { pattern: /(?:^|\/)claude_desktop_config\.json$/, usage: 'MCP server config' },
+    ],
+    mention: /\bmcp server\b|\bmodel context protocol\b/i,
+  },
+]
+
+// Files whose contents describe how an agent should work; fetched even though they are not source.
+const INSTRUCTION_FILE = /(?:^|\/)(?:\.cursorrules|\.windsurfrules|AGENTS\.md|CLAUDE\.md|GEMINI\.md|\.github\/copilot-instructions\.md|\.github\/(?:prompts|instructions|chatmodes)\/[^/]+\.md|\.cursor\/rules\/[^/]+\.mdc?|\.claude\/(?:commands|agents)\/[^/]+\.md|\.mcp\.json|\.cursor\/mcp\.json|\.vscode\/mcp\.json|opencode\.jsonc?|\.aider\.conf\.ya?ml)$/
+
+// Tools that only show up through commit trailers or a generic AGENTS.md.
+const EXTRA_TOOL_NAMES: Record<string, string> = {
+  'agents-md': 'AGENTS.md agent',
+  chatgpt: 'ChatGPT / Codex',
+  devin: 'Devin',
+  gemini: 'Gemini',
+  openhands: 'OpenHands',
+  'amazon-q': 'Amazon Q',
+}
+
+export function isToolArtifact(path: string): boolean {
+  return INSTRUCTION_FILE.test(path)
+}
+
+export function attributeAiTools(
+  files: FileNode[],
+  artifacts: Array<{ path: string; content: string }>,
+  aiMatches: Array<{ sha: string; ruleId: string; category: RuleCategory; tool?: string }> = []
+): ToolAttribution[] {
+  const found = new Map<string, { usage: Set<string>; evidence: ToolEvidence[] }>()
+  const record = (tool: string, evidence: ToolEvidence, usage?: string) => {
+    const entry = found.get(tool) ?? { usage: new Set<string>(), evidence: [] }
+    if (usage) entry.usage.add(usage)
+    if (!entry.evidence.some((item) => item.kind === evidence.kind && item.detail === evidence.detail)) {
+      entry.evidence.push(evidence)
+    }
+    found.set(tool, entry)
+  }
+
+  for (const file of files) {
+    if (file.type !== 'file') continue
+    for (const rule of TOOL_RULES) {
+      const match = rule.paths.find((entry) => entry.pattern.test(file.path))
+      if (match) record(rule.tool, { kind: 'path', detail: file.path, path: file.path }, match.usage)
+    }
+  }
+
+  for (const artifact of artifacts) {
+    const name = artifact.path.split('/').pop() ?? artifact.path
+    for (const rule of TOOL_RULES) {
+      const mention = artifact.content.match(rule.mention)
+      if (mention && rule.tool !== 'mcp') {
+        record(rule.tool, { kind: 'content', detail: `${name} mentions "${mention[0]}"`, path: artifact.path })
+      }
+    }
+
+    if (name.endsWith('.json') || name.endsWith('.jsonc')) {
+      const servers = parseMcpServers(artifact.content)
+      if (servers.length > 0) {
+        record('mcp', { kind: 'content', detail: `${name} configures ${servers.join(', ')}`, path: artifact.path }, `servers: ${servers.slice(0, 5).join(', ')}`)
+      }
+    }
+    if (name === 'AGENTS.md') {
+      const tool = inferAgentsTool(artifact.content)
+      record(tool, { kind: 'content', detail: `AGENTS.md with ${countSections(artifact.content)} section(s)`, path: artifact.path }, 'agent instructions')
+    }
+    if (/\.prompt\.md$/.test(name)) {
+      const mode = artifact.content.match(/^mode:\s*['"]?(\w+)/m)?.[1]
+      if (mode) record('copilot', { kind: 'content', detail: `${name} runs in ${mode} mode`, path: artifact.path }, `${mode}-mode prompts`)
+    }
+    if (name.endsWith('.mdc')) {
+      const alwaysApply = /^alwaysApply:\s*true/m.test(artifact.content)
+      const globs = artifact.content.match(/^globs:\s*(.+)$/m)?.[1]?.trim()
+      if (alwaysApply || globs) {
+        record('cursor', { kind: 'content', detail: `${name}: ${alwaysApply ? 'always applied' : `scoped to ${globs}`}`, path: artifact.path })
+      }
+    }
+  }
+
+  for (const match of aiMatches) {
+    if (!match.tool) continue
+    const usage = match.category === 'ai-trailer' ? 'commit co-author' : 'named in commits'
+    record(match.tool, { kind: 'commit', detail: `${match.sha.slice(0, 7)} [${match.ruleId}]` }, usage)
+  }
+
+  return [...found.entries()]
+    .map(([tool, entry]) => ({
+      tool,
+      name: TOOL_RULES.find((rule) => rule.tool === tool)?.name ?? EXTRA_TOOL_NAMES[tool] ?? tool,
+      confidence: toolConfidence(entry.evidence),
+      usage: [...entry.usage],
+      evidence: entry.evidence,
+    }))
+    .sort((a, b) => b.evidence.length - a.evidence.length)
+}
+
+function toolConfidence(evidence: ToolEvidence[]): AnalysisConfidence {
+  const kinds = new Set(evidence.map((item) => item.kind))
+  if (kinds.size >= 2 || evidence.filter((item) => item.kind === 'commit').length >= 2) return 'high'
+  if (evidence.length >= 2 || kinds.has('commit')) return 'medium'
+  return 'low'
+}
+
+function parseMcpServers(content: string): string[] {
+  try {
+    // JSONC configs allow line comments.
+    const data = JSON.parse(content.replace(/^\s*\/\/.*$/gm, '')) as Record<string, unknown>
+    const servers = data.mcpServers ?? data.servers ?? (data.mcp as Record<string, unknown> | undefined)
+    return servers && typeof servers === 'object' ? Object.keys(servers) : []
+  } catch {
+    return []
+  }
+}
+
+// AGENTS.md is shared by several agents; attribute it to the one it names, if any.
+function inferAgentsTool(content: string): string {
+  const named = TOOL_RULES.find((rule) => rule.tool !== 'mcp' && rule.tool !== 'spec-driven' && rule.mention.test(content))
+  return named?.tool ?? 'agents-md'
+}
+
+function countSections(content: string): number {
+  return content.match(/^#{1,3}\s+\S/gm)?.length ?? 0
+}
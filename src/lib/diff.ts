@@ -0,0 +1,50 @@
+import type { GitHubFile } from './types'
+
+export function extractAddedLines(patch: string): string[] {
+  return patch
+    .split('\n')
+    .filter((line) => line.startsWith('+') && !line.startsWith('+++ '))
+    .map((line) => line.slice(1))
+}
+
+export function countHunks(patch: string): number {
+  return patch.split('\n').filter((line) => line.startsWith('@@')).length
+}
+
+// Splits a multi-file `git diff` into per-file patches shaped like GitHub's files API.
+export function splitUnifiedDiff(diff: string): GitHubFile[] {
+  const files: GitHubFile[] = []
+  let current: { file: GitHubFile; lines: string[] } | null = null
+
+  const flush = () => {
+    if (!current) return
+    if (current.lines.length > 0) current.file.patch = current.lines.join('\n').replace(/\n+$/, '')
+    files.push(current.file)
+  }
+
+  for (const line of diff.split('\n')) {
+    const header = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+    if (header) {
+      flush()
+      current = { file: { filename: header[2], additions: 0, deletions: 0, status: 'modified' }, lines: [] }
+      continue
+    }
+    if (!current) continue
+
+    // Extended headers sit between `diff --git` and the first hunk.
+    if (current.lines.length === 0 && !line.startsWith('@@')) {
+      if (line.startsWith('new file mode')) current.file.status = 'added'
+      else if (line.startsWith('deleted file mode')) current.file.status = 'removed'
+      else if (line.startsWith('rename from')) current.file.status = 'renamed'
+      else if (line.startsWith('+++ b/')) current.file.filename = line.slice(6)
+      continue
+    }
+
+    current.lines.push(line)
+    if (line.startsWith('+')) current.file.additions++
+    else if (line.startsWith('-')) current.file.deletions++
+  }
+  flush()
+
+  return files
+}
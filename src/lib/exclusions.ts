@@ -0,0 +1,235 @@
+import type { ExclusionCounts, FileNode } from './types'
+import { dirname } from './paths'
+
+export type ExclusionReason = keyof ExclusionCounts
+
+interface IgnoreRule {
+  regex: RegExp
+  anchored: boolean
+  directoryOnly: boolean
+  negated: boolean
+}
+
+interface AttributeRule {
+  rule: IgnoreRule
+  generated?: boolean
+  vendored?: boolean
+}
+
+interface PackageLayout {
+  // The repository root ('') and every directory holding a package manifest.
+  roots: Set<string>
+  lockfileDirectories: Set<string>
+}
+
+// Mirrors the most common entries in linguist's vendor.yml and generated.rb.
+const VENDOR_PATHS = [
+  /(?:^|\/)node_modules\//,
+  /(?:^|\/)bower_components\//,
+  /(?:^|\/)Pods\//,
+  /(?:^|\/)Carthage\//,
+  /(?:^|\/)\.yarn\/(?:releases|plugins|sdks|cache)\//,
+  /(?:^|\/)(?:jquery|bootstrap|d3|lodash|moment|modernizr)(?:[-.][\w.-]*)?\.js$/i,
+  /\.min\.(?:js|css)$/,
+]
+const GENERATED_PATHS = [
+  /\.pb\.(?:go|cc|h|swift)$|_pb2(?:_grpc)?\.pyi?$|_pb\.(?:js|d\.ts)$|_grpc\.pb\.go$/,
+  /\.(?:g|freezed|gr)\.dart$/,
+  /\.generated\.\w+$|(?:^|\/)generated\//i,
+  /\.designer\.cs$/i,
+  /\.(?:js|css)\.map$/,
+]
+// Names too common as ordinary source directories to match at any depth; they only count directly under a package root.
+const ROOT_VENDOR_DIRECTORY = /^(?:vendor|vendors|third[-_]?party)$/i
+const ROOT_GENERATED_DIRECTORY = /^(?:dist|build|out|coverage|\.next|\.nuxt|\.svelte-kit)$/
+// Also a package manager's install directory (mix, CMake FetchContent), but only trusted next to a lockfile.
+const LOCKED_VENDOR_DIRECTORY = /^(?:external|deps)$/i
+const PACKAGE_MANIFESTS = new Set([
+  'package.json', 'Cargo.toml', 'go.mod', 'pyproject.toml', 'setup.py', 'requirements.txt', 'composer.json', 'Gemfile',
+  'mix.exs', 'pubspec.yaml', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'CMakeLists.txt', 'Package.swift',
+])
+const LOCKFILES = new Set([
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock', 'Cargo.lock',
+  'poetry.lock', 'Pipfile.lock', 'uv.lock', 'Gemfile.lock', 'composer.lock', 'go.sum', 'mix.lock', 'pubspec.lock',
+  'Podfile.lock', 'flake.lock', 'packages.lock.json',
+])
+
+export const EXCLUSION_SOURCES = ['.gitattributes', '.slopignore']
+
+export function emptyExclusionCounts(): ExclusionCounts {
+  return { generated: 0, vendored: 0, lockfile: 0, ignored: 0 }
+}
+
+export function applyExclusions(
+  files: FileNode[],
+  sources: { gitattributes?: string; slopignore?: string }
+): { files: FileNode[]; excluded: ExclusionCounts } {
+  const attributes = parseGitAttributes(sources.gitattributes ?? '')
+  const ignoreRules = parseIgnoreRules(sources.slopignore ?? '')
+  const layout = packageLayout(files)
+  const excluded = emptyExclusionCounts()
+
+  const kept = files.filter((file) => {
+    if (file.type !== 'file') return true
+    const reason = exclusionReason(file.path, attributes, ignoreRules, layout)
+    if (reason) excluded[reason]++
+    return reason === null
+  })
+
+  // Directories left without any files would still count towards structure shapes.
+  const keptDirectories = new Set<string>()
+  for (const file of kept) {
+    const parts = file.path.split('/')
+    for (let i = 1; i < parts.length; i++) keptDirectories.add(parts.slice(0, i).join('/'))
+  }
+  return {
+    files: kept.filter((file) => file.type === 'file' || keptDirectories.has(file.path)),
+    excluded,
+  }
+}
+
+function packageLayout(files: FileNode[]): PackageLayout {
+  const roots = new Set([''])
+  const lockfileDirectories = new Set<string>()
+  for (const file of files) {
+    if (file.type !== 'file') continue
+    const name = file.path.split('/').pop() ?? file.path
+    if (PACKAGE_MANIFESTS.has(name)) roots.add(dirname(file.path))
+    if (LOCKFILES.has(name)) lockfileDirectories.add(dirname(file.path))
+  }
+  return { roots, lockfileDirectories }
+}
+
+// True when a directory of `path` matches `name` and its parent passes `accepts`.
+function hasDirectoryUnder(path: string, name: RegExp, accepts: (parent: string) => boolean): boolean {
+  const parts = path.split('/')
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (name.test(parts[i]) && accepts(parts.slice(0, i).join('/'))) return true
+  }
+  return false
+}
+
+function exclusionReason(path: string, attributes: AttributeRule[], ignoreRules: IgnoreRule[], layout: PackageLayout): ExclusionReason | null {
+  if (matchesRules(path, ignoreRules)) return 'ignored'
+
+  // Explicit attributes win over the built-in heuristics in both directions.
+  let generated: boolean | undefined
+  let vendored: boolean | undefined
+  for (const attribute of attributes) {
+    if (!ruleMatches(attribute.rule, path)) continue
+    generated = attribute.generated ?? generated
+    vendored = attribute.vendored ?? vendored
+  }
+  vendored ??= VENDOR_PATHS.some((pattern) => pattern.test(path)) ||
+    hasDirectoryUnder(path, ROOT_VENDOR_DIRECTORY, (parent) => layout.roots.has(parent)) ||
+    hasDirectoryUnder(path, LOCKED_VENDOR_DIRECTORY, (parent) => layout.lockfileDirectories.has(parent))
+  if (vendored) return 'vendored'
+  if (LOCKFILES.has(path.split('/').pop() ?? path)) return 'lockfile'
+  generated ??= GENERATED_PATHS.some((pattern) => pattern.test(path)) ||
+    hasDirectoryUnder(path, ROOT_GENERATED_DIRECTORY, (parent) => layout.roots.has(parent))
+  if (generated) return 'generated'
+  return null
+}
+
+function parseGitAttributes(content: string): AttributeRule[] {
+  const rules: AttributeRule[] = []
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+    const [pattern, ...attributes] = line.split(/\s+/)
+    const rule = compileRule(pattern)
+    if (!rule) continue
+    const entry: AttributeRule = { rule }
+    for (const attribute of attributes) {
+      const match = attribute.match(/^([-!]?)linguist-(generated|vendored)(?:=(\w+))?$/)
+      if (!match) continue
+      const value = match[1] === '' && match[3] !== 'false'
+      if (match[2] === 'generated') entry.generated = value
+      else entry.vendored = value
+    }
+    if (entry.generated !== undefined || entry.vendored !== undefined) rules.push(entry)
+  }
+  return rules
+}
+
+function parseIgnoreRules(content: string): IgnoreRule[] {
+  return content
+    .split('\n')
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .map((line) => compileRule(line.replace(/(?<!\\)\s+$/, '')))
+    .filter((rule): rule is IgnoreRule => rule !== null)
+}
+
+// gitignore semantics: last matching rule wins, and a rule matching a directory covers everything below it.
+function matchesRules(path: string, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (ruleMatches(rule, path)) ignored = !rule.negated
+  }
+  return ignored
+}
+
+function ruleMatches(rule: IgnoreRule, path: string): boolean {
+  const parts = path.split('/')
+  for (let end = parts.length; end >= 1; end--) {
+    if (rule.directoryOnly && end === parts.length) continue
+    const candidate = rule.anchored ? parts.slice(0, end).join('/') : parts[end - 1]
+    if (rule.regex.test(candidate)) return true
+  }
+  return false
+}
+
+function compileRule(rawPattern: string): IgnoreRule | null {
+  let pattern = rawPattern
+  const negated = pattern.startsWith('!')
+  if (negated) pattern = pattern.slice(1)
+  if (pattern.startsWith('\\')) pattern = pattern.slice(1)
+  const directoryOnly = pattern.endsWith('/')
+  pattern = pattern.replace(/\/+$/, '')
+  if (!pattern) return null
+
+  const anchored = pattern.includes('/')
+  pattern = pattern.replace(/^\//, '')
+  return { regex: new RegExp(`^${globToRegex(pattern)}$`), anchored, directoryOnly, negated }
+}
+
+function globToRegex(glob: string): string {
+  let regex = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/'
+        const atSegmentEnd = glob[i + 2] === '/' || i + 2 === glob.length
+        if (atSegmentStart && glob[i + 2] === '/') {
+          regex += '(?:.*/)?'
+          i += 2
+          continue
+        }
+        if (atSegmentStart && atSegmentEnd) {
+          regex += '.*'
+          i += 1
+          continue
+        }
+      }
+      regex += '[^/]*'
+    } else if (char === '?') {
+      regex += '[^/]'
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1)
+      if (close === -1) {
+        regex += '\\['
+        continue
+      }
+      regex += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+      i = close
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+      i++
+    } else {
+      regex += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+  return regex
+}
@@ -0,0 +1,183 @@
+import { GitHubApiError } from './github'
+import { fetchStratifiedHistory, type CommitPage } from './history'
+import { splitUnifiedDiff } from './diff'
+import type { RepoDataSource } from './dataSource'
+import type { CommitHistory, FileNode, GitHubCommit, GitHubFile, GitHubPullRequest, GitHubRepo, GitHubTreeItem } from './types'
+
+// Gitea's default MAX_RESPONSE_ITEMS; larger page sizes are silently capped to it.
+const DEFAULT_PAGE_SIZE = 50
+const MAX_TREE_PAGES = 20
+// Same cap as GitHub's pull request commits endpoint.
+const MAX_PULL_REQUEST_COMMITS = 250
+
+interface ApiConfig {
+  apiBase: string
+  token?: string
+}
+
+interface GiteaRepo {
+  default_branch: string
+  name: string
+  full_name: string
+  created_at?: string
+  stars_count?: number
+}
+
+interface GiteaTree {
+  tree: GitHubTreeItem[] | null
+  truncated: boolean
+  total_count: number
+}
+
+// Live source for the Gitea API (v1), which Forgejo and Codeberg serve too. Commits and pull
+// requests already come back in GitHub's shape; per-file patches are cut from the raw diff.
+export function createGiteaSource(options: { apiBase: string; token?: string }): RepoDataSource {
+  const api: ApiConfig = { apiBase: options.apiBase.replace(/\/+$/, ''), token: options.token }
+  return {
+    repoInfo: (owner, repo) => fetchRepoInfo(api, owner, repo),
+    tree: (owner, repo, ref) => fetchRepoTree(api, owner, repo, ref),
+    fileContent: (owner, repo, path, ref) => fetchFileContent(api, owner, repo, path, ref),
+    commitHistory: (owner, repo, historyOptions) => fetchCommitHistory(api, owner, repo, historyOptions),
+    commitDetails: (owner, repo, sha) => fetchCommitDetails(api, owner, repo, sha),
+    pullRequest: (owner, repo, pullNumber) => fetchPullRequest(api, owner, repo, pullNumber),
+    pullRequestCommits: (owner, repo, pullNumber) => fetchPullRequestCommits(api, owner, repo, pullNumber),
+    pullRequestFiles: (owner, repo, pullNumber) => fetchPullRequestFiles(api, owner, repo, pullNumber),
+  }
+}
+
+function repoUrl(api: ApiConfig, owner: string, repo: string): string {
+  return `${api.apiBase}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+}
+
+async function request(api: ApiConfig, url: string, failurePrefix: string): Promise<Response> {
+  const response = await fetch(url, {
+    headers: api.token ? { 'Authorization': `token ${api.token}` } : {},
+  })
+
+  if (!response.ok) {
+    const body = await response.text()
+    const suffix = body ? ` (${body.slice(0, 140)})` : ''
+    throw new GitHubApiError(`${failurePrefix}: ${response.status}${suffix}`, response.status)
+  }
+
+  return response
+}
+
+async function fetchRepoInfo(api: ApiConfig, owner: string, repo: string): Promise<GitHubRepo> {
+  const response = await request(api, repoUrl(api, owner, repo), 'Failed to fetch repo info')
+  const data = await response.json() as GiteaRepo
+  return {
+    default_branch: data.default_branch,
+    name: data.name,
+    full_name: data.full_name,
+    created_at: data.created_at,
+    stargazers_count: data.stars_count,
+  }
+}
+
+async function fetchRepoTree(api: ApiConfig, owner: string, repo: string, ref: string): Promise<FileNode[]> {
+  const items: GitHubTreeItem[] = []
+  for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+    const response = await request(
+      api,
+      `${repoUrl(api, owner, repo)}/git/trees/${encodeURIComponent(ref)}?recursive=true&page=${page}`,
+      'Failed to fetch repo tree'
+    )
+    const data = await response.json() as GiteaTree
+    items.push(...data.tree ?? [])
+    if (!data.truncated || !data.tree?.length || items.length >= data.total_count) break
+  }
+
+  return items.map((item) => ({
+    name: item.path.split('/').pop() ?? item.path,
+    path: item.path,
+    type: item.type === 'blob' ? 'file' : 'dir',
+    url: item.url,
+    sha: item.sha,
+  }))
+}
+
+async function fetchFileContent(api: ApiConfig, owner: string, repo: string, path: string, ref: string): Promise<string> {
+  const encodedPath = path
+    .split('/')
+    .map((segment) => encodeURIComponent(segment))
+    .join('/')
+
+  const response = await request(
+    api,
+    `${repoUrl(api, owner, repo)}/raw/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+    'Failed to fetch file content'
+  )
+  return response.text()
+}
+
+async function fetchCommitHistory(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  options: { perPage?: number; pageBudget?: number } = {}
+): Promise<CommitHistory> {
+  const perPage = Math.min(options.perPage ?? DEFAULT_PAGE_SIZE, DEFAULT_PAGE_SIZE)
+  return fetchStratifiedHistory((page) => fetchCommitPage(api, owner, repo, page, perPage), options.pageBudget ?? 1)
+}
+
+async function fetchCommitPage(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  page: number,
+  perPage: number
+): Promise<CommitPage> {
+  const response = await request(
+    api,
+    `${repoUrl(api, owner, repo)}/commits?limit=${perPage}&page=${page}&stat=false&verification=false&files=false`,
+    'Failed to fetch commit history'
+  )
+
+  const commits = await response.json() as GitHubCommit[]
+  const pageCount = Number(response.headers.get('x-pagecount'))
+  return {
+    commits,
+    lastPage: pageCount > 0 ? pageCount : undefined,
+  }
+}
+
+async function fetchCommitDetails(api: ApiConfig, owner: string, repo: string, sha: string): Promise<GitHubCommit> {
+  const commitUrl = `${repoUrl(api, owner, repo)}/git/commits/${encodeURIComponent(sha)}`
+  const [commitResponse, diffResponse] = await Promise.all([
+    request(api, `${commitUrl}?stat=true&verification=false&files=false`, 'Failed to fetch commit details'),
+    request(api, `${commitUrl}.diff`, 'Failed to fetch commit diff'),
+  ])
+
+  return {
+    ...await commitResponse.json() as GitHubCommit,
+    files: splitUnifiedDiff(await diffResponse.text()),
+  }
+}
+
+async function fetchPullRequest(api: ApiConfig, owner: string, repo: string, pullNumber: number): Promise<GitHubPullRequest> {
+  const response = await request(api, `${repoUrl(api, owner, repo)}/pulls/${pullNumber}`, 'Failed to fetch pull request')
+  return response.json() as Promise<GitHubPullRequest>
+}
+
+// Pages until a short page signals the end.
+async function fetchPullRequestCommits(api: ApiConfig, owner: string, repo: string, pullNumber: number): Promise<GitHubCommit[]> {
+  const commits: GitHubCommit[] = []
+  for (let page = 1; commits.length < MAX_PULL_REQUEST_COMMITS; page++) {
+    const response = await request(
+      api,
+      `${repoUrl(api, owner, repo)}/pulls/${pullNumber}/commits?limit=${DEFAULT_PAGE_SIZE}&page=${page}&verification=false&files=false`,
+      'Failed to fetch pull request commits'
+    )
+    const pageCommits = await response.json() as GitHubCommit[]
+    commits.push(...pageCommits)
+    if (pageCommits.length < DEFAULT_PAGE_SIZE) break
+  }
+  return commits.slice(0, MAX_PULL_REQUEST_COMMITS)
+}
+
+// The files endpoint has no patches, so read the whole diff instead.
+async function fetchPullRequestFiles(api: ApiConfig, owner: string, repo: string, pullNumber: number): Promise<GitHubFile[]> {
+  const response = await request(api, `${repoUrl(api, owner, repo)}/pulls/${pullNumber}.diff`, 'Failed to fetch pull request diff')
+  return splitUnifiedDiff(await response.text())
+}
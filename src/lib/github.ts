@@ -1,4 +1,16 @@
-import type { FileNode, GitHubCommit, GitHubTreeItem, GitHubRepo } from './types'
+import type { CommitHistory, FileNode, GitHubCommit, GitHubFile, GitHubPullRequest, GitHubTreeItem, GitHubRepo } from './types'
+import type { RepoDataSource } from './dataSource'
+import { fetchStratifiedHistory, type CommitPage } from './history'
+
+export const GITHUB_API_BASE = 'https://api.github.com'
+// The pull request endpoints stop listing past these, however many pages are followed.
+const MAX_PULL_REQUEST_COMMITS = 250
+const MAX_PULL_REQUEST_FILES = 3000
+
+interface ApiConfig {
+  apiBase: string
+  token?: string
+}
 
 export class GitHubApiError extends Error {
   status: number
@@ -9,8 +21,23 @@ export class GitHubApiError extends Error {
   }
 }
 
-function getHeaders(token?: string): HeadersInit {
-  const headers: HeadersInit = {
+// Live GitHub REST source; point `apiBase` at a stand-in server to run the pipeline against local data.
+export function createGitHubSource(options: { token?: string; apiBase?: string } = {}): RepoDataSource {
+  const api: ApiConfig = { apiBase: (options.apiBase ?? GITHUB_API_BASE).replace(/\/+$/, ''), token: options.token }
+  return {
+    repoInfo: (owner, repo) => fetchRepoInfo(api, owner, repo),
+    tree: (owner, repo, ref) => fetchRepoTree(api, owner, repo, ref),
+    fileContent: (owner, repo, path, ref) => fetchFileContent(api, owner, repo, path, ref),
+    commitHistory: (owner, repo, historyOptions) => fetchCommitHistory(api, owner, repo, historyOptions),
+    commitDetails: (owner, repo, sha) => fetchCommitDetails(api, owner, repo, sha),
+    pullRequest: (owner, repo, pullNumber) => fetchPullRequest(api, owner, repo, pullNumber),
+    pullRequestCommits: (owner, repo, pullNumber) => fetchPullRequestCommits(api, owner, repo, pullNumber),
+    pullRequestFiles: (owner, repo, pullNumber) => fetchPullRequestFiles(api, owner, repo, pullNumber),
+  }
+}
+
+function getHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
     'Accept': 'application/vnd.github.v3+json',
   }
   
@@ -31,23 +58,35 @@ async function parseResponse<T>(response: Response, failurePrefix: string): Prom
   return response.json() as Promise<T>
 }
 
-export async function fetchRepoInfo(owner: string, repo: string, token?: string): Promise<GitHubRepo> {
-  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-    headers: getHeaders(token),
+// Follows `Link: rel="next"` until `limit` items have been read.
+async function fetchPaginated<T>(api: ApiConfig, url: string, limit: number, failurePrefix: string): Promise<T[]> {
+  const items: T[] = []
+  let next: string | undefined = url
+  while (next && items.length < limit) {
+    const response = await fetch(next, { headers: getHeaders(api.token) })
+    items.push(...await parseResponse<T[]>(response, failurePrefix))
+    next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+  }
+  return items.slice(0, limit)
+}
+
+async function fetchRepoInfo(api: ApiConfig, owner: string, repo: string): Promise<GitHubRepo> {
+  const response = await fetch(`${api.apiBase}/repos/${owner}/${repo}`, {
+    headers: getHeaders(api.token),
   })
 
   return parseResponse<GitHubRepo>(response, 'Failed to fetch repo info')
 }
 
-export async function fetchRepoTree(
+async function fetchRepoTree(
+  api: ApiConfig,
   owner: string,
   repo: string,
-  ref: string,
-  token?: string
+  ref: string
 ): Promise<FileNode[]> {
   const response = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
-    { headers: getHeaders(token) }
+    `${api.apiBase}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    { headers: getHeaders(api.token) }
   )
 
   const data = await parseResponse<{ tree: GitHubTreeItem[] }>(response, 'Failed to fetch repo tree')
@@ -56,15 +95,16 @@ export async function fetchRepoTree(
     path: item.path,
     type: item.type === 'blob' ? 'file' : 'dir',
     url: item.url,
+    sha: item.sha,
   }))
 }
 
-export async function fetchFileContent(
+async function fetchFileContent(
+  api: ApiConfig,
   owner: string,
   repo: string,
   path: string,
-  ref: string,
-  token?: string
+  ref: string
 ): Promise<string> {
   const encodedPath = path
     .split('/')
@@ -72,33 +112,93 @@ export async function fetchFileContent(
     .join('/')
 
   const response = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
-    { headers: getHeaders(token) }
+    `${api.apiBase}/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+    { headers: getHeaders(api.token) }
   )
 
   const data = await parseResponse<{ content: string }>(response, 'Failed to fetch file content')
   return atob(data.content)
 }
 
-export async function fetchCommitHistory(
+async function fetchCommitHistory(
+  api: ApiConfig,
   owner: string,
   repo: string,
-  token?: string,
-  perPage = 100
-): Promise<GitHubCommit[]> {
+  options: { perPage?: number; pageBudget?: number } = {}
+): Promise<CommitHistory> {
+  const perPage = options.perPage ?? 100
+  return fetchStratifiedHistory((page) => fetchCommitPage(api, owner, repo, page, perPage), options.pageBudget ?? 1)
+}
+
+async function fetchCommitPage(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  page: number,
+  perPage: number
+): Promise<CommitPage> {
   const response = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}/commits?per_page=${perPage}`,
-    { headers: getHeaders(token) }
+    `${api.apiBase}/repos/${owner}/${repo}/commits?per_page=${perPage}&page=${page}`,
+    { headers: getHeaders(api.token) }
   )
 
-  return parseResponse<GitHubCommit[]>(response, 'Failed to fetch commit history')
+  const commits = await parseResponse<GitHubCommit[]>(response, 'Failed to fetch commit history')
+  const lastMatch = response.headers.get('link')?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/)
+  return {
+    commits,
+    lastPage: lastMatch ? Number(lastMatch[1]) : undefined,
+  }
 }
 
-export async function fetchCommitDetails(owner: string, repo: string, sha: string, token?: string): Promise<GitHubCommit> {
+async function fetchCommitDetails(api: ApiConfig, owner: string, repo: string, sha: string): Promise<GitHubCommit> {
   const response = await fetch(
-    `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`,
-    { headers: getHeaders(token) }
+    `${api.apiBase}/repos/${owner}/${repo}/commits/${sha}`,
+    { headers: getHeaders(api.token) }
   )
 
   return parseResponse<GitHubCommit>(response, 'Failed to fetch commit details')
 }
+
+async function fetchPullRequest(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<GitHubPullRequest> {
+  const response = await fetch(
+    `${api.apiBase}/repos/${owner}/${repo}/pulls/${pullNumber}`,
+    { headers: getHeaders(api.token) }
+  )
+
+  return parseResponse<GitHubPullRequest>(response, 'Failed to fetch pull request')
+}
+
+async function fetchPullRequestCommits(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  perPage = 100
+): Promise<GitHubCommit[]> {
+  return fetchPaginated<GitHubCommit>(
+    api,
+    `${api.apiBase}/repos/${owner}/${repo}/pulls/${pullNumber}/commits?per_page=${perPage}`,
+    MAX_PULL_REQUEST_COMMITS,
+    'Failed to fetch pull request commits'
+  )
+}
+
+async function fetchPullRequestFiles(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  perPage = 100
+): Promise<GitHubFile[]> {
+  return fetchPaginated<GitHubFile>(
+    api,
+    `${api.apiBase}/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=${perPage}`,
+    MAX_PULL_REQUEST_FILES,
+    'Failed to fetch pull request files'
+  )
+}
@@ -0,0 +1,300 @@
+import { GitHubApiError } from './github'
+import { fetchStratifiedHistory, type CommitPage } from './history'
+import type { RepoDataSource } from './dataSource'
+import type { CommitHistory, FileNode, GitHubCommit, GitHubFile, GitHubPullRequest, GitHubRepo } from './types'
+
+// Trees are listed 100 entries a page; stop well before huge monorepos exhaust the request budget.
+const MAX_TREE_PAGES = 50
+// Same caps as GitHub's pull request endpoints so every forge samples a merge request alike.
+const MAX_MERGE_REQUEST_COMMITS = 250
+const MAX_DIFF_FILES = 3000
+// Bounds the search for the last history page when GitLab omits x-total-pages.
+const MAX_LAST_PAGE_PROBES = 24
+
+interface ApiConfig {
+  apiBase: string
+  token?: string
+}
+
+interface GitLabProject {
+  default_branch: string
+  name: string
+  path_with_namespace: string
+  created_at?: string
+  star_count?: number
+}
+
+interface GitLabTreeItem {
+  id: string
+  name: string
+  type: string
+  path: string
+}
+
+interface GitLabCommit {
+  id: string
+  message: string
+  author_name?: string
+  author_email?: string
+  authored_date: string
+  parent_ids?: string[]
+  stats?: {
+    additions: number
+    deletions: number
+    total: number
+  }
+}
+
+interface GitLabDiff {
+  old_path: string
+  new_path: string
+  new_file: boolean
+  renamed_file: boolean
+  deleted_file: boolean
+  diff: string
+}
+
+interface GitLabMergeRequest {
+  iid: number
+  title: string
+  state: string
+  sha: string
+  source_branch: string
+  target_branch: string
+  changes_count?: string | null
+}
+
+interface GitLabCommitPage extends CommitPage {
+  hasNextPage: boolean
+}
+
+// Live GitLab REST (v4) source; responses are mapped onto the GitHub shapes the pipeline reads.
+// `owner` is the full namespace, so projects in nested groups work unchanged.
+export function createGitLabSource(options: { apiBase: string; token?: string }): RepoDataSource {
+  const api: ApiConfig = { apiBase: options.apiBase.replace(/\/+$/, ''), token: options.token }
+  return {
+    repoInfo: (owner, repo) => fetchProject(api, owner, repo),
+    tree: (owner, repo, ref) => fetchRepoTree(api, owner, repo, ref),
+    fileContent: (owner, repo, path, ref) => fetchFileContent(api, owner, repo, path, ref),
+    commitHistory: (owner, repo, historyOptions) => fetchCommitHistory(api, owner, repo, historyOptions),
+    commitDetails: (owner, repo, sha) => fetchCommitDetails(api, owner, repo, sha),
+    pullRequest: (owner, repo, pullNumber) => fetchMergeRequest(api, owner, repo, pullNumber),
+    pullRequestCommits: (owner, repo, pullNumber) => fetchMergeRequestCommits(api, owner, repo, pullNumber),
+    pullRequestFiles: (owner, repo, pullNumber) => fetchMergeRequestFiles(api, owner, repo, pullNumber),
+  }
+}
+
+function projectUrl(api: ApiConfig, owner: string, repo: string): string {
+  return `${api.apiBase}/projects/${encodeURIComponent(`${owner}/${repo}`)}`
+}
+
+async function request(api: ApiConfig, url: string, failurePrefix: string): Promise<Response> {
+  const response = await fetch(url, {
+    headers: api.token ? { 'PRIVATE-TOKEN': api.token } : {},
+  })
+
+  if (!response.ok) {
+    const body = await response.text()
+    const suffix = body ? ` (${body.slice(0, 140)})` : ''
+    throw new GitHubApiError(`${failurePrefix}: ${response.status}${suffix}`, response.status)
+  }
+
+  return response
+}
+
+// Follows `Link: rel="next"` until `limit` items have been read.
+async function fetchPaginated<T>(api: ApiConfig, url: string, limit: number, failurePrefix: string): Promise<T[]> {
+  const items: T[] = []
+  let next: string | undefined = url
+  while (next && items.length < limit) {
+    const response = await request(api, next, failurePrefix)
+    items.push(...await response.json() as T[])
+    next = nextPageUrl(response, next)
+  }
+  return items.slice(0, limit)
+}
+
+// Offset-paginated endpoints also send `x-next-page`, which survives proxies that drop the Link header.
+function nextPageUrl(response: Response, url: string): string | undefined {
+  const linked = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+  if (linked) return linked
+  const nextPage = response.headers.get('x-next-page')
+  if (!nextPage) return undefined
+  const nextUrl = new URL(url)
+  nextUrl.searchParams.set('page', nextPage)
+  return nextUrl.toString()
+}
+
+async function fetchProject(api: ApiConfig, owner: string, repo: string): Promise<GitHubRepo> {
+  const response = await request(api, projectUrl(api, owner, repo), 'Failed to fetch project info')
+  const project = await response.json() as GitLabProject
+  return {
+    default_branch: project.default_branch,
+    name: project.name,
+    full_name: project.path_with_namespace,
+    created_at: project.created_at,
+    stargazers_count: project.star_count,
+  }
+}
+
+async function fetchRepoTree(api: ApiConfig, owner: string, repo: string, ref: string): Promise<FileNode[]> {
+  const items: GitLabTreeItem[] = []
+  let url: string | undefined =
+    `${projectUrl(api, owner, repo)}/repository/tree?recursive=true&per_page=100&pagination=keyset&ref=${encodeURIComponent(ref)}`
+
+  for (let page = 0; url && page < MAX_TREE_PAGES; page++) {
+    const response = await request(api, url, 'Failed to fetch repo tree')
+    items.push(...await response.json() as GitLabTreeItem[])
+    url = nextPageUrl(response, url)
+  }
+
+  return items.map((item) => ({
+    name: item.name,
+    path: item.path,
+    type: item.type === 'blob' ? 'file' : 'dir',
+    sha: item.id,
+  }))
+}
+
+async function fetchFileContent(api: ApiConfig, owner: string, repo: string, path: string, ref: string): Promise<string> {
+  const response = await request(
+    api,
+    `${projectUrl(api, owner, repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+    'Failed to fetch file content'
+  )
+  return response.text()
+}
+
+async function fetchCommitHistory(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  options: { perPage?: number; pageBudget?: number } = {}
+): Promise<CommitHistory> {
+  const perPage = options.perPage ?? 100
+  const pageBudget = options.pageBudget ?? 1
+  const fetchPage = (page: number) => fetchCommitPage(api, owner, repo, page, perPage)
+  return fetchStratifiedHistory(async (page) => {
+    const result = await fetchPage(page)
+    // Large projects omit x-total-pages; locate the oldest page so the sample still spans the whole history.
+    if (page !== 1 || result.lastPage !== undefined || !result.hasNextPage || pageBudget <= 1) return result
+    return { ...result, lastPage: await findLastPage(fetchPage) }
+  }, pageBudget)
+}
+
+async function fetchCommitPage(
+  api: ApiConfig,
+  owner: string,
+  repo: string,
+  page: number,
+  perPage: number
+): Promise<GitLabCommitPage> {
+  const response = await request(
+    api,
+    `${projectUrl(api, owner, repo)}/repository/commits?per_page=${perPage}&page=${page}`,
+    'Failed to fetch commit history'
+  )
+
+  const commits = (await response.json() as GitLabCommit[]).map(toCommit)
+  const totalPages = Number(response.headers.get('x-total-pages'))
+  return {
+    commits,
+    lastPage: totalPages > 0 ? totalPages : undefined,
+    hasNextPage: Boolean(response.headers.get('x-next-page')),
+  }
+}
+
+// Gallops past the end of the history, then bisects; with the probes spent, the furthest page seen stands in.
+async function findLastPage(fetchPage: (page: number) => Promise<GitLabCommitPage>): Promise<number> {
+  let lastSeen = 2
+  let pastEnd: number | undefined
+  let probes = 0
+  while (probes < MAX_LAST_PAGE_PROBES && (pastEnd === undefined || pastEnd - lastSeen > 1)) {
+    const page = pastEnd === undefined ? lastSeen * 2 : Math.floor((lastSeen + pastEnd) / 2)
+    const result = await fetchPage(page)
+    probes++
+    if (result.commits.length === 0) {
+      pastEnd = page
+    } else if (!result.hasNextPage) {
+      return page
+    } else {
+      lastSeen = page
+    }
+  }
+  return lastSeen
+}
+
+async function fetchCommitDetails(api: ApiConfig, owner: string, repo: string, sha: string): Promise<GitHubCommit> {
+  const commitUrl = `${projectUrl(api, owner, repo)}/repository/commits/${encodeURIComponent(sha)}`
+  const [commitResponse, diffs] = await Promise.all([
+    request(api, commitUrl, 'Failed to fetch commit details'),
+    fetchPaginated<GitLabDiff>(api, `${commitUrl}/diff?per_page=100`, MAX_DIFF_FILES, 'Failed to fetch commit diff'),
+  ])
+
+  return {
+    ...toCommit(await commitResponse.json() as GitLabCommit),
+    files: diffs.map(toFile),
+  }
+}
+
+async function fetchMergeRequest(api: ApiConfig, owner: string, repo: string, iid: number): Promise<GitHubPullRequest> {
+  const response = await request(api, `${projectUrl(api, owner, repo)}/merge_requests/${iid}`, 'Failed to fetch merge request')
+  const mergeRequest = await response.json() as GitLabMergeRequest
+  const changedFiles = Number.parseInt(mergeRequest.changes_count ?? '', 10)
+  return {
+    number: mergeRequest.iid,
+    title: mergeRequest.title,
+    state: mergeRequest.state,
+    changed_files: Number.isNaN(changedFiles) ? undefined : changedFiles,
+    head: { sha: mergeRequest.sha, ref: mergeRequest.source_branch },
+    base: { ref: mergeRequest.target_branch },
+  }
+}
+
+async function fetchMergeRequestCommits(api: ApiConfig, owner: string, repo: string, iid: number): Promise<GitHubCommit[]> {
+  const commits = await fetchPaginated<GitLabCommit>(
+    api,
+    `${projectUrl(api, owner, repo)}/merge_requests/${iid}/commits?per_page=100`,
+    MAX_MERGE_REQUEST_COMMITS,
+    'Failed to fetch merge request commits'
+  )
+  return commits.map(toCommit)
+}
+
+async function fetchMergeRequestFiles(api: ApiConfig, owner: string, repo: string, iid: number): Promise<GitHubFile[]> {
+  const diffs = await fetchPaginated<GitLabDiff>(
+    api,
+    `${projectUrl(api, owner, repo)}/merge_requests/${iid}/diffs?per_page=100`,
+    MAX_DIFF_FILES,
+    'Failed to fetch merge request files'
+  )
+  return diffs.map(toFile)
+}
+
+function toCommit(commit: GitLabCommit): GitHubCommit {
+  return {
+    sha: commit.id,
+    commit: {
+      message: commit.message,
+      author: {
+        name: commit.author_name,
+        email: commit.author_email,
+        date: commit.authored_date,
+      },
+    },
+    author: null,
+    parents: commit.parent_ids?.map((sha) => ({ sha })),
+    stats: commit.stats,
+  }
+}
+
+function toFile(diff: GitLabDiff): GitHubFile {
+  const lines = diff.diff.split('\n')
+  return {
+    filename: diff.new_path,
+    additions: lines.filter((line) => line.startsWith('+') && !line.startsWith('+++')).length,
+    deletions: lines.filter((line) => line.startsWith('-') && !line.startsWith('---')).length,
+    status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : diff.renamed_file ? 'renamed' : 'modified',
+    patch: diff.diff,
+  }
+}
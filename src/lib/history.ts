@@ -0,0 +1,53 @@
+import type { CommitHistory, GitHubCommit } from './types'
+
+export interface CommitPage {
+  commits: GitHubCommit[]
+  lastPage?: number
+}
+
+// Reads the first page, then a stratified sample of the rest; forges differ only in how a page is fetched.
+export async function fetchStratifiedHistory(
+  fetchPage: (page: number) => Promise<CommitPage>,
+  pageBudget: number
+): Promise<CommitHistory> {
+  const firstPage = await fetchPage(1)
+  const totalPages = firstPage.lastPage ?? 1
+
+  const pages = pickStratifiedPages(totalPages, Math.max(pageBudget, 1)).filter((page) => page !== 1)
+  const remainingPages = await Promise.all(pages.map((page) => fetchPage(page)))
+
+  const commits: GitHubCommit[] = [...firstPage.commits]
+  const segmentStarts: string[] = []
+  let previousPage = 1
+  remainingPages.forEach((result, index) => {
+    const page = pages[index]
+    if (page !== previousPage + 1 && result.commits[0]) {
+      segmentStarts.push(result.commits[0].sha)
+    }
+    commits.push(...result.commits)
+    previousPage = page
+  })
+
+  return {
+    commits,
+    segmentStarts,
+    pagesFetched: pages.length + 1,
+    totalPages,
+  }
+}
+
+// Always include the newest and oldest pages, then spread the rest evenly.
+function pickStratifiedPages(totalPages: number, budget: number): number[] {
+  if (totalPages <= budget) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1)
+  }
+  if (budget === 1) return [1]
+
+  const pages = new Set<number>([1, totalPages])
+  const middleSlots = budget - 2
+  for (let i = 1; i <= middleSlots; i++) {
+    pages.add(Math.round(1 + ((totalPages - 1) * i) / (middleSlots + 1)))
+  }
+
+  return [...pages].sort((a, b) => a - b)
+}
@@ -0,0 +1,118 @@
+import { createGitHubSource, GITHUB_API_BASE } from './github'
+import { createGitLabSource } from './gitlab'
+import { createGiteaSource } from './gitea'
+import type { RepoDataSource } from './dataSource'
+
+// `github` also covers GitHub Enterprise Server. Gitea covers its Forgejo fork and Codeberg, which share the API and URL layout.
+export type ForgeKind = 'github' | 'gitlab' | 'gitea'
+
+// A forge instance, identified by the origin its web pages are served from.
+export interface ForgeHost {
+  kind: ForgeKind
+  origin: string
+  token?: string
+}
+
+// Where an analysed repository lives; left off for github.com so ids and cache keys keep their original form.
+export type RepoHost = Pick<ForgeHost, 'kind' | 'origin'>
+
+export interface RepoLocation {
+  owner: string
+  repo: string
+  pullNumber?: number
+}
+
+export const GITHUB_ORIGIN = 'https://github.com'
+
+// Covered by the manifest; every other host is granted at runtime when it is added in settings.
+export const BUILTIN_HOSTS: ForgeHost[] = [
+  { kind: 'github', origin: GITHUB_ORIGIN },
+  { kind: 'gitlab', origin: 'https://gitlab.com' },
+  { kind: 'gitea', origin: 'https://codeberg.org' },
+]
+
+// First path segments that belong to the instance rather than to a namespace.
+const GITLAB_RESERVED_PATHS = new Set(['-', 'admin', 'dashboard', 'explore', 'groups', 'help', 'projects', 'search', 'users'])
+const GITEA_RESERVED_PATHS = new Set(['-', 'admin', 'api', 'explore', 'issues', 'milestones', 'notifications', 'org', 'pulls', 'repo', 'user'])
+
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  try {
+    const url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null
+  } catch {
+    return null
+  }
+}
+
+export function hostPermissionPattern(origin: string): string {
+  return `${origin}/*`
+}
+
+export function isBuiltinHost(origin: string): boolean {
+  return BUILTIN_HOSTS.some((host) => host.origin === origin)
+}
+
+// Configured hosts win over the built-in ones, so a token can be attached to gitlab.com.
+export function findHost(origin: string, configured: ForgeHost[]): ForgeHost | null {
+  return configured.find((host) => host.origin === origin) ?? BUILTIN_HOSTS.find((host) => host.origin === origin) ?? null
+}
+
+export function repoHostOf(host: ForgeHost): RepoHost | undefined {
+  return host.origin === GITHUB_ORIGIN ? undefined : { kind: host.kind, origin: host.origin }
+}
+
+// Repositories on other hosts are prefixed with the hostname so they never collide with github.com ones.
+export function repoPath(owner: string, repo: string, host?: RepoHost): string {
+  return host ? `${new URL(host.origin).host}/${owner}/${repo}` : `${owner}/${repo}`
+}
+
+export function createHostSource(host: ForgeHost, githubToken?: string): RepoDataSource {
+  if (host.kind === 'gitlab') {
+    return createGitLabSource({ apiBase: `${host.origin}/api/v4`, token: host.token })
+  }
+  if (host.kind === 'gitea') {
+    return createGiteaSource({ apiBase: `${host.origin}/api/v1`, token: host.token })
+  }
+  // The github.com token from settings is never sent to an Enterprise server.
+  const token = host.origin === GITHUB_ORIGIN ? host.token ?? githubToken : host.token
+  return createGitHubSource({ token, apiBase: githubApiBase(host.origin) })
+}
+
+// GitHub Enterprise Server serves the REST API under /api/v3 on the instance itself.
+export function githubApiBase(origin: string): string {
+  return origin === GITHUB_ORIGIN ? GITHUB_API_BASE : `${origin}/api/v3`
+}
+
+export function parseRepoLocation(host: RepoHost, url: URL): RepoLocation | null {
+  const parts = url.pathname.split('/').filter(Boolean)
+
+  if (host.kind === 'gitlab') {
+    // Project paths may nest groups; everything after `/-/` is a page within the project.
+    const separator = parts.indexOf('-')
+    const projectParts = separator === -1 ? parts : parts.slice(0, separator)
+    if (projectParts.length < 2 || GITLAB_RESERVED_PATHS.has(projectParts[0])) return null
+    const page = separator === -1 ? [] : parts.slice(separator + 1)
+    const mergeRequest = page[0] === 'merge_requests' && /^\d+$/.test(page[1] ?? '') ? Number(page[1]) : undefined
+    return {
+      owner: projectParts.slice(0, -1).join('/'),
+      repo: projectParts[projectParts.length - 1],
+      pullNumber: mergeRequest,
+    }
+  }
+
+  if (parts.length < 2) return null
+  if (host.kind === 'gitea' && GITEA_RESERVED_PATHS.has(parts[0])) return null
+  const pullSegment = host.kind === 'gitea' ? 'pulls' : 'pull'
+  const pullNumber = parts[2] === pullSegment && /^\d+$/.test(parts[3] ?? '') ? Number(parts[3]) : undefined
+  return { owner: parts[0], repo: parts[1], pullNumber }
+}
+
+export function fileWebUrl(host: RepoHost | undefined, project: string, path: string): string {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/')
+  if (host?.kind === 'gitlab') return `${host.origin}/${project}/-/blob/HEAD/${encodedPath}`
+  // Gitea has no HEAD ref in web URLs; its legacy `src/<path>` route resolves against the default branch.
+  if (host?.kind === 'gitea') return `${host.origin}/${project}/src/${encodedPath}`
+  return `${host?.origin ?? GITHUB_ORIGIN}/${project}/blob/HEAD/${encodedPath}`
+}
@@ -0,0 +1,225 @@
+export type FileKind = 'code' | 'doc' | 'config'
+
+export interface BlockComment {
+  start: string
+  end: string
+  doc?: boolean
+  lineStart?: boolean
+}
+
+export interface LanguageSpec {
+  id: string
+  kind: FileKind
+  extensions: string[]
+  filenames?: string[]
+  comments: {
+    line: string[]
+    docLine?: string[]
+    block: BlockComment[]
+  }
+  strings: string[]
+}
+
+export interface CommentLine {
+  line: number
+  text: string
+  doc: boolean
+}
+
+const C_BLOCKS: BlockComment[] = [
+  { start: '/**', end: '*/', doc: true },
+  { start: '/*', end: '*/' },
+]
+const C_COMMENTS = { line: ['//'], block: C_BLOCKS }
+const HASH_COMMENTS = { line: ['#'], block: [] }
+const HTML_BLOCKS: BlockComment[] = [{ start: '<!--', end: '-->' }]
+
+export const LANGUAGES: LanguageSpec[] = [
+  { id: 'typescript', kind: 'code', extensions: ['ts', 'tsx', 'mts', 'cts'], comments: C_COMMENTS, strings: ['"', "'", '`'] },
+  { id: 'javascript', kind: 'code', extensions: ['js', 'jsx', 'mjs', 'cjs'], comments: C_COMMENTS, strings: ['"', "'", '`'] },
+  {
+    id: 'python',
+    kind: 'code',
+    extensions: ['py', 'pyi'],
+    comments: {
+      line: ['#'],
+      block: [
+        { start: '"""', end: '"""', doc: true, lineStart: true },
+        { start: "'''", end: "'''", doc: true, lineStart: true },
+      ],
+    },
+    strings: ['"""', "'''", '"', "'"],
+  },
+  { id: 'go', kind: 'code', extensions: ['go'], comments: C_COMMENTS, strings: ['"', '`'] },
+  {
+    id: 'rust',
+    kind: 'code',
+    extensions: ['rs'],
+    comments: { line: ['//'], docLine: ['///', '//!'], block: C_BLOCKS },
+    strings: ['"'],
+  },
+  { id: 'java', kind: 'code', extensions: ['java'], comments: C_COMMENTS, strings: ['"""', '"', "'"] },
+  { id: 'kotlin', kind: 'code', extensions: ['kt', 'kts'], comments: C_COMMENTS, strings: ['"""', '"', "'"] },
+  { id: 'scala', kind: 'code', extensions: ['scala', 'sc'], comments: C_COMMENTS, strings: ['"""', '"', "'"] },
+  { id: 'swift', kind: 'code', extensions: ['swift'], comments: { line: ['//'], docLine: ['///'], block: C_BLOCKS }, strings: ['"""', '"'] },
+  { id: 'csharp', kind: 'code', extensions: ['cs'], comments: { line: ['//'], docLine: ['///'], block: C_BLOCKS }, strings: ['"', "'"] },
+  { id: 'c', kind: 'code', extensions: ['c', 'h'], comments: C_COMMENTS, strings: ['"', "'"] },
+  { id: 'cpp', kind: 'code', extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx'], comments: { line: ['//'], docLine: ['///'], block: C_BLOCKS }, strings: ['"', "'"] },
+  { id: 'dart', kind: 'code', extensions: ['dart'], comments: { line: ['//'], docLine: ['///'], block: C_BLOCKS }, strings: ['"""', "'''", '"', "'"] },
+  { id: 'php', kind: 'code', extensions: ['php'], comments: { line: ['//', '#'], block: C_BLOCKS }, strings: ['"', "'"] },
+  {
+    id: 'ruby',
+    kind: 'code',
+    extensions: ['rb', 'rake'],
+    filenames: ['Gemfile', 'Rakefile'],
+    comments: { line: ['#'], block: [{ start: '=begin', end: '=end', doc: true, lineStart: true }] },
+    strings: ['"', "'"],
+  },
+  { id: 'elixir', kind: 'code', extensions: ['ex', 'exs'], comments: HASH_COMMENTS, strings: ['"""', '"'] },
+  { id: 'r', kind: 'code', extensions: ['r'], comments: HASH_COMMENTS, strings: ['"', "'"] },
+  { id: 'shell', kind: 'code', extensions: ['sh', 'bash', 'zsh'], comments: HASH_COMMENTS, strings: ['"', "'"] },
+  { id: 'dockerfile', kind: 'code', extensions: ['dockerfile'], filenames: ['Dockerfile', 'Containerfile'], comments: HASH_COMMENTS, strings: [] },
+  { id: 'makefile', kind: 'code', extensions: ['mk'], filenames: ['Makefile', 'GNUmakefile'], comments: HASH_COMMENTS, strings: [] },
+  { id: 'lua', kind: 'code', extensions: ['lua'], comments: { line: ['--'], block: [{ start: '--[[', end: ']]' }] }, strings: ['"', "'"] },
+  { id: 'haskell', kind: 'code', extensions: ['hs'], comments: { line: ['--'], docLine: ['-- |'], block: [{ start: '{-', end: '-}' }] }, strings: ['"'] },
+  { id: 'sql', kind: 'code', extensions: ['sql'], comments: { line: ['--'], block: C_BLOCKS }, strings: ["'"] },
+  { id: 'html', kind: 'code', extensions: ['html', 'htm'], comments: { line: [], block: HTML_BLOCKS }, strings: [] },
+  { id: 'vue', kind: 'code', extensions: ['vue', 'svelte'], comments: { line: ['//'], block: [...HTML_BLOCKS, ...C_BLOCKS] }, strings: ['"', "'", '`'] },
+  { id: 'css', kind: 'code', extensions: ['css', 'scss', 'less'], comments: { line: [], block: C_BLOCKS }, strings: ['"', "'"] },
+  { id: 'markdown', kind: 'doc', extensions: ['md', 'mdx', 'markdown'], comments: { line: [], block: HTML_BLOCKS }, strings: [] },
+  { id: 'restructuredtext', kind: 'doc', extensions: ['rst'], comments: { line: [], block: [] }, strings: [] },
+  { id: 'text', kind: 'doc', extensions: ['txt', 'adoc'], comments: { line: [], block: [] }, strings: [] },
+  { id: 'yaml', kind: 'config', extensions: ['yml', 'yaml'], comments: HASH_COMMENTS, strings: [] },
+  { id: 'toml', kind: 'config', extensions: ['toml'], comments: HASH_COMMENTS, strings: [] },
+  { id: 'ini', kind: 'config', extensions: ['ini', 'cfg'], comments: { line: [';', '#'], block: [] }, strings: [] },
+  { id: 'gomod', kind: 'config', extensions: [], filenames: ['go.mod', 'go.work'], comments: { line: ['//'], block: [] }, strings: [] },
+  { id: 'json', kind: 'config', extensions: ['json'], comments: { line: [], block: [] }, strings: [] },
+]
+
+const LANGUAGE_BY_EXTENSION = new Map<string, LanguageSpec>()
+const LANGUAGE_BY_FILENAME = new Map<string, LanguageSpec>()
+for (const language of LANGUAGES) {
+  for (const extension of language.extensions) LANGUAGE_BY_EXTENSION.set(extension, language)
+  for (const filename of language.filenames ?? []) LANGUAGE_BY_FILENAME.set(filename, language)
+}
+
+export function getLanguage(path: string): LanguageSpec | null {
+  const name = path.split('/').pop() ?? path
+  const byName = LANGUAGE_BY_FILENAME.get(name)
+  if (byName) return byName
+
+  const dot = name.lastIndexOf('.')
+  if (dot === -1) return null
+  return LANGUAGE_BY_EXTENSION.get(name.slice(dot + 1).toLowerCase()) ?? null
+}
+
+export function classifyFile(path: string): FileKind | null {
+  return getLanguage(path)?.kind ?? null
+}
+
+export function isAnalyzableFile(path: string): boolean {
+  return getLanguage(path) !== null
+}
+
+export function extractComments(content: string, language: LanguageSpec): CommentLine[] {
+  return scanSource(content, language).comments
+}
+
+// Splits source into comment lines and code lines with comments removed and string bodies blanked.
+export function scanSource(content: string, language: LanguageSpec): { code: string[]; comments: CommentLine[] } {
+  const { line: lineMarkers, docLine: docLineMarkers = [], block: blocks } = language.comments
+  const strings = language.strings.slice().sort((a, b) => b.length - a.length)
+  const comments = new Map<number, CommentLine>()
+  const code: string[] = []
+  let lineIndex = 0
+  let atLineStart = true
+  let index = 0
+
+  const append = (text: string, doc: boolean) => {
+    const existing = comments.get(lineIndex)
+    const cleaned = text.replace(/^\s*\*+(?!\/)/, '').trim()
+    comments.set(lineIndex, {
+      line: lineIndex,
+      text: existing ? `${existing.text} ${cleaned}`.trim() : cleaned,
+      doc: (existing?.doc ?? false) || doc,
+    })
+  }
+  const emit = (text: string) => {
+    code[lineIndex] = (code[lineIndex] ?? '') + text
+  }
+
+  while (index < content.length) {
+    const char = content[index]
+    if (char === '\n') {
+      lineIndex++
+      atLineStart = true
+      index++
+      continue
+    }
+    if (char === ' ' || char === '\t' || char === '\r') {
+      emit(char)
+      index++
+      continue
+    }
+
+    const block = blocks.find((entry) => content.startsWith(entry.start, index) && (!entry.lineStart || atLineStart))
+    if (block) {
+      const endIndex = content.indexOf(block.end, index + block.start.length)
+      const stop = endIndex === -1 ? content.length : endIndex
+      content
+        .slice(index + block.start.length, stop)
+        .split('\n')
+        .forEach((part, offset) => {
+          if (offset > 0) lineIndex++
+          append(part, block.doc ?? false)
+        })
+      index = endIndex === -1 ? content.length : endIndex + block.end.length
+      atLineStart = false
+      continue
+    }
+
+    const docMarker = docLineMarkers.find((marker) => content.startsWith(marker, index))
+    const lineMarker = docMarker ?? lineMarkers.find((marker) => content.startsWith(marker, index))
+    if (lineMarker) {
+      const newline = content.indexOf('\n', index)
+      const stop = newline === -1 ? content.length : newline
+      append(content.slice(index + lineMarker.length, stop), Boolean(docMarker))
+      index = stop
+      continue
+    }
+
+    const delimiter = strings.find((entry) => content.startsWith(entry, index))
+    if (delimiter) {
+      emit(delimiter + delimiter)
+      index += delimiter.length
+      while (index < content.length) {
+        if (content[index] === '\\') {
+          if (content[index + 1] === '\n') lineIndex++
+          index += 2
+          continue
+        }
+        if (content.startsWith(delimiter, index)) {
+          index += delimiter.length
+          break
+        }
+        if (content[index] === '\n') {
+          // Single-character quotes never span lines; bail out instead of swallowing the file.
+          if (delimiter.length === 1 && delimiter !== '`') break
+          lineIndex++
+        }
+        index++
+      }
+      atLineStart = false
+      continue
+    }
+
+    emit(char)
+    atLineStart = false
+    index++
+  }
+
+  return {
+    code: Array.from({ length: lineIndex + 1 }, (_, i) => code[i] ?? ''),
+    comments: [...comments.values()].sort((a, b) => a.line - b.line),
+  }
+}
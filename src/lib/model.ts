@@ -0,0 +1,39 @@
+import prior from './model.json'
+
+export interface CalibrationBin {
+  // Upper edge of the predicted-probability bucket.
+  upTo: number
+  count: number
+  predicted: number
+  observed: number
+}
+
+export interface ScoringModel {
+  modelVersion: string
+  description?: string
+  fittedOn: { fixtures: number; positives: number; date: string } | null
+  intercept: number
+  coefficients: Record<string, number>
+  // Cross-validated reliability curve from the fit that produced the coefficients.
+  calibration: CalibrationBin[]
+}
+
+// Model inputs that are not detector signals; each is scaled to 0..1 by calculateSlopScore.
+export const DERIVED_INPUTS: Record<string, string> = {
+  mediumHighIndicators: 'Medium and high severity indicators, saturating at five',
+  evidenceStrength: 'How many signals fired and how strongly',
+}
+
+export const DEFAULT_MODEL = prior as ScoringModel
+
+export function predictLikelihood(model: ScoringModel, inputs: Record<string, number>): { probability: number; terms: Record<string, number> } {
+  const terms = Object.fromEntries(
+    Object.entries(model.coefficients).map(([feature, coefficient]) => [feature, coefficient * (inputs[feature] ?? 0)])
+  )
+  const logit = model.intercept + Object.values(terms).reduce((sum, term) => sum + term, 0)
+  return { probability: sigmoid(logit), terms }
+}
+
+export function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value))
+}
@@ -0,0 +1,16 @@
+// Repository-relative paths: '/'-separated with no leading slash; the root is ''.
+
+export function dirname(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+export function joinPath(directory: string, relative: string): string {
+  const parts = directory ? directory.split('/') : []
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
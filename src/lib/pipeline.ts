@@ -0,0 +1,579 @@
+import { countHunks, extractAddedLines } from './diff'
+import { classifyFile, isAnalyzableFile } from './languages'
+import { matchKnownTemplates, type TemplateMatch } from './templates'
+import { applyExclusions, EXCLUSION_SOURCES } from './exclusions'
+import { analyzeCommitMessages } from './detectors/commitAnalyzer'
+import { isBotCommit } from './detectors/commitClassifier'
+import { isManifestFile, nearestManifestPath } from './detectors/importDetector'
+import { attributeAiTools, isToolArtifact } from './detectors/toolDetector'
+import { DETECTOR_SIGNALS, runDetectors, type DetectorRun, type FileSignals } from './detectors/registry'
+import { calculateFileScore, calculateSlopScore, round } from './scoring'
+import { DEFAULT_MODEL } from './model'
+import type { RuleCatalog } from './rules'
+import type { RepoDataSource } from './dataSource'
+import { repoPath, type RepoHost } from './hosts'
+import type {
+  RepoAnalysis,
+  SlopIndicator,
+  SlopScore,
+  FileNode,
+  FileAnalysis,
+  GitHubCommit,
+  GitHubFile,
+  GitHubPullRequest,
+  CommitHistory,
+  CommitSampling,
+} from './types'
+
+const MAX_SAMPLED_FILES = 28
+const MAX_COMMIT_DETAILS = 8
+const FILE_FETCH_CONCURRENCY = 4
+const MAX_TOOL_ARTIFACTS = 6
+
+// Everything the final pass reads beyond the commit list; the background serves it from the API, the benchmark from fixtures.
+export interface RepoContents {
+  tree: () => Promise<FileNode[]>
+  file: (path: string) => Promise<string>
+  commit: (sha: string) => Promise<GitHubCommit>
+}
+
+export interface PipelineRepo {
+  owner: string
+  repo: string
+  defaultBranch: string
+  host?: RepoHost
+}
+
+export type CommitAnalysis = ReturnType<typeof analyzeCommitMessages>
+
+export function sourceContents(source: RepoDataSource, repo: PipelineRepo): RepoContents {
+  return {
+    tree: () => source.tree(repo.owner, repo.repo, repo.defaultBranch),
+    file: (path) => source.fileContent(repo.owner, repo.repo, path, repo.defaultBranch),
+    commit: (sha) => source.commitDetails(repo.owner, repo.repo, sha),
+  }
+}
+
+// The page budget decides which commits are sampled, so scans at different budgets are different results.
+export function repoCacheKey(repo: PipelineRepo, history: CommitHistory, rules: RuleCatalog, commitPageBudget: number): string {
+  const latestCommitSha = history.commits[0]?.sha ?? 'no-commits'
+  return `${repoPath(repo.owner, repo.repo, repo.host)}:${repo.defaultBranch}:${latestCommitSha}:p${commitPageBudget}:${rules.version}:${DEFAULT_MODEL.modelVersion}`
+}
+
+export function pullRequestCacheKey(repo: Pick<PipelineRepo, 'owner' | 'repo' | 'host'>, pullRequest: GitHubPullRequest, rules: RuleCatalog): string {
+  return `${repoPath(repo.owner, repo.repo, repo.host)}#${pullRequest.number}:${pullRequest.head.sha}:${rules.version}:${DEFAULT_MODEL.modelVersion}`
+}
+
+// Whole scans in one call, without caching or progressive updates; the offline scripts use these.
+export async function analyzeRepository(
+  source: RepoDataSource,
+  options: { owner: string; repo: string; host?: RepoHost; commitPageBudget: number; rules: RuleCatalog }
+): Promise<RepoAnalysis> {
+  const { owner, repo, host, commitPageBudget, rules } = options
+  const startedAt = Date.now()
+  const repoInfo = await source.repoInfo(owner, repo)
+  const history = await source.commitHistory(owner, repo, { pageBudget: commitPageBudget })
+  const pipelineRepo = { owner, repo, host, defaultBranch: repoInfo.default_branch }
+  const cacheKey = repoCacheKey(pipelineRepo, history, rules, commitPageBudget)
+  const { analysis: provisionalAnalysis, commitResult } = buildProvisionalAnalysis({
+    repo: pipelineRepo,
+    history,
+    rules,
+    startedAt,
+    requestCount: 1 + history.pagesFetched,
+    cacheKey,
+  })
+  return buildFinalAnalysis({
+    repo: pipelineRepo,
+    history,
+    commitResult,
+    provisionalAnalysis,
+    rules,
+    contents: sourceContents(source, pipelineRepo),
+    startedAt,
+    cacheKey,
+  })
+}
+
+export async function analyzePullRequest(
+  source: RepoDataSource,
+  options: { owner: string; repo: string; host?: RepoHost; pullNumber: number; rules: RuleCatalog }
+): Promise<RepoAnalysis> {
+  const { owner, repo, host, pullNumber, rules } = options
+  const startedAt = Date.now()
+  const pullRequest = await source.pullRequest(owner, repo, pullNumber)
+  const [commits, changedFiles] = await Promise.all([
+    source.pullRequestCommits(owner, repo, pullNumber),
+    source.pullRequestFiles(owner, repo, pullNumber),
+  ])
+  return buildPullRequestAnalysis({
+    repo: { owner, repo, host },
+    pullRequest,
+    commits,
+    changedFiles,
+    rules,
+    startedAt,
+    requestCount: 3,
+    cacheKey: pullRequestCacheKey({ owner, repo, host }, pullRequest, rules),
+  })
+}
+
+export function buildProvisionalAnalysis(input: {
+  repo: PipelineRepo
+  history: CommitHistory
+  rules: RuleCatalog
+  startedAt: number
+  requestCount: number
+  cacheKey: string
+}): { analysis: RepoAnalysis; commitResult: CommitAnalysis } {
+  const { repo: { owner, repo, host }, history, rules, startedAt, requestCount, cacheKey } = input
+  const commits = history.commits
+  const commitResult = analyzeCommitMessages(commits, { segmentStarts: history.segmentStarts, rules })
+  const provisionalRun = runDetectors({
+    commits: { list: commits, segmentStarts: history.segmentStarts, analysis: commitResult },
+    rules,
+  })
+  const { indicators: provisionalIndicators, scoring: provisionalScore } = scoreDetectorRun(provisionalRun)
+
+  const analysis: RepoAnalysis = {
+    repoId: repoPath(owner, repo, host),
+    repoName: `${owner}/${repo}`,
+    host,
+    slopScore: provisionalScore.overall,
+    confidence: provisionalScore.confidence,
+    stage: 'provisional',
+    semantics: 'likelihood',
+    indicators: provisionalIndicators,
+    files: [],
+    authors: commitResult.authors,
+    tools: attributeAiTools([], [], commitResult.aiMatches),
+    scoreBreakdown: provisionalScore.breakdown,
+    diagnostics: {
+      timingMs: {
+        startedAt,
+        timeToFirstBadge: Date.now() - startedAt,
+      },
+      requestCount,
+      sampledFiles: 0,
+      commitSampling: summarizeCommitSampling(history),
+      detectorVersions: provisionalRun.versions,
+      ruleCatalogVersion: rules.version,
+      featureValues: {
+        ...roundSignals(provisionalRun.signals),
+        ...provisionalRun.featureValues,
+      },
+      scoreContributions: provisionalScore.contributions,
+      evidenceStrength: provisionalScore.evidenceStrength,
+      modelVersion: provisionalScore.modelVersion,
+      modelInputs: provisionalScore.modelInputs,
+      ...provisionalRun.diagnostics,
+    },
+    cache: {
+      isCached: false,
+      cacheKey,
+    },
+    timestamp: Date.now(),
+  }
+
+  return { analysis, commitResult }
+}
+
+// Reads the tree, samples and commit details through `contents` and scores the whole repository.
+export async function buildFinalAnalysis(input: {
+  repo: PipelineRepo
+  history: CommitHistory
+  commitResult: CommitAnalysis
+  provisionalAnalysis: RepoAnalysis
+  rules: RuleCatalog
+  contents: RepoContents
+  startedAt: number
+  cacheKey: string
+}): Promise<RepoAnalysis> {
+  const { repo: { owner, repo, defaultBranch }, history, commitResult, provisionalAnalysis, rules, contents, startedAt, cacheKey } = input
+  const { commits, segmentStarts } = history
+  const repoId = provisionalAnalysis.repoId
+
+  let requestCount = provisionalAnalysis.diagnostics.requestCount
+  const withCount = async <T>(promiseFactory: () => Promise<T>): Promise<T> => {
+    requestCount++
+    return promiseFactory()
+  }
+
+  const files = await withCount(() => contents.tree())
+  const exclusionSources = await mapWithConcurrency(
+    EXCLUSION_SOURCES.filter((source) => files.some((file) => file.path === source)),
+    FILE_FETCH_CONCURRENCY,
+    async (source) => {
+      try {
+        return [source, await withCount(() => contents.file(source))] as const
+      } catch (error) {
+        console.error(`Error fetching ${source}: ${errorMessage(error)}`)
+        return null
+      }
+    }
+  )
+  const exclusionContent = new Map(exclusionSources.filter((entry) => entry !== null))
+  // Vendored, generated and ignored paths stay visible to existence checks but are never sampled or shape-checked.
+  const exclusionResult = applyExclusions(files, {
+    gitattributes: exclusionContent.get('.gitattributes'),
+    slopignore: exclusionContent.get('.slopignore'),
+  })
+  const ownedFiles = exclusionResult.files
+  const templateResult = matchKnownTemplates(ownedFiles)
+  // Generator boilerplate says nothing about who wrote the project; keep it out of sampling and shape checks.
+  const shapeFiles = ownedFiles.filter(
+    (file) => !templateResult.verbatimPaths.has(file.path) && !templateResult.scaffoldPaths.has(file.path)
+  )
+
+  const analyzableFiles = ownedFiles.filter(
+    (file) => file.type === 'file' && isAnalyzableFile(file.path) && !templateResult.verbatimPaths.has(file.path)
+  )
+
+  const sampledFiles = pickSampleFiles(analyzableFiles, MAX_SAMPLED_FILES)
+  const sampledContent = await mapWithConcurrency(sampledFiles, FILE_FETCH_CONCURRENCY, async (file) => {
+    try {
+      const content = await withCount(() => contents.file(file.path))
+      return { path: file.path, content }
+    } catch (error) {
+      console.error(`Error fetching file content for ${file.path}: ${errorMessage(error)}`)
+      return null
+    }
+  })
+
+  const validSamples = sampledContent.filter((sample): sample is { path: string; content: string } => Boolean(sample))
+
+  const artifactFiles = files
+    .filter((file) => file.type === 'file' && isToolArtifact(file.path) && !validSamples.some((sample) => sample.path === file.path))
+    .slice(0, MAX_TOOL_ARTIFACTS)
+  const artifactContent = await mapWithConcurrency(artifactFiles, FILE_FETCH_CONCURRENCY, async (file) => {
+    try {
+      const content = await withCount(() => contents.file(file.path))
+      return { path: file.path, content }
+    } catch (error) {
+      console.error(`Error fetching tool artifact ${file.path}: ${errorMessage(error)}`)
+      return null
+    }
+  })
+  const toolArtifacts = [
+    ...validSamples.filter((sample) => isToolArtifact(sample.path)),
+    ...artifactContent.filter((sample): sample is { path: string; content: string } => Boolean(sample)),
+  ]
+
+  const commitDetails = await mapWithConcurrency(
+    pickCommitSample(commits, MAX_COMMIT_DETAILS),
+    FILE_FETCH_CONCURRENCY,
+    async (commit) => {
+      try {
+        return await withCount(() => contents.commit(commit.sha))
+      } catch (error) {
+        console.error(`Error fetching commit details for ${commit.sha}: ${errorMessage(error)}`)
+        return null
+      }
+    }
+  )
+  const detailedCommits = commitDetails.filter((commit): commit is GitHubCommit => Boolean(commit))
+
+  const detectorRun = runDetectors({
+    repo: { owner, repo, defaultBranch },
+    tree: { files, analyzable: shapeFiles },
+    commits: { list: commits, segmentStarts, analysis: commitResult },
+    commitDetails: detailedCommits,
+    samples: validSamples,
+    rules,
+  })
+  const { indicators, scoring } = scoreDetectorRun(detectorRun)
+
+  return {
+    repoId,
+    repoName: `${owner}/${repo}`,
+    host: provisionalAnalysis.host,
+    slopScore: scoring.overall,
+    confidence: scoring.confidence,
+    stage: 'final',
+    semantics: 'likelihood',
+    indicators: [...indicators, ...(detectorRun.quality?.indicators ?? [])],
+    files: buildFileAnalyses(detectorRun.files),
+    authors: commitResult.authors,
+    tools: attributeAiTools(files, toolArtifacts, commitResult.aiMatches),
+    quality: detectorRun.quality?.summary,
+    scoreBreakdown: scoring.breakdown,
+    diagnostics: {
+      timingMs: {
+        startedAt,
+        timeToFirstBadge: provisionalAnalysis.diagnostics.timingMs.timeToFirstBadge,
+        timeToFinalScore: Date.now() - startedAt,
+      },
+      requestCount,
+      sampledFiles: validSamples.length,
+      commitSampling: provisionalAnalysis.diagnostics.commitSampling,
+      excludedFiles: exclusionResult.excluded,
+      notes: templateResult.templates.map(describeTemplateMatch),
+      detectorVersions: detectorRun.versions,
+      ruleCatalogVersion: rules.version,
+      featureValues: {
+        ...roundSignals(detectorRun.signals),
+        ...detectorRun.featureValues,
+        templateVerbatimFiles: templateResult.verbatimPaths.size,
+        templateScaffoldFiles: templateResult.scaffoldPaths.size,
+        excludedFiles: Object.values(exclusionResult.excluded).reduce((sum, count) => sum + count, 0),
+      },
+      scoreContributions: scoring.contributions,
+      evidenceStrength: scoring.evidenceStrength,
+      modelVersion: scoring.modelVersion,
+      modelInputs: scoring.modelInputs,
+      ...detectorRun.diagnostics,
+    },
+    cache: {
+      isCached: false,
+      cacheKey,
+    },
+    timestamp: Date.now(),
+  }
+}
+
+export function buildPullRequestAnalysis(input: {
+  repo: Pick<PipelineRepo, 'owner' | 'repo' | 'host'>
+  pullRequest: GitHubPullRequest
+  commits: GitHubCommit[]
+  changedFiles: GitHubFile[]
+  rules: RuleCatalog
+  startedAt: number
+  requestCount: number
+  cacheKey: string
+}): RepoAnalysis {
+  const { repo: { owner, repo, host }, pullRequest, commits, changedFiles, rules, startedAt, requestCount, cacheKey } = input
+  const repoId = `${repoPath(owner, repo, host)}#${pullRequest.number}`
+  const commitResult = analyzeCommitMessages(commits, { rules })
+  const addedSamples = changedFiles
+    .filter((file) => file.status !== 'removed' && Boolean(file.patch))
+    .map((file) => ({ path: file.filename, content: extractAddedLines(file.patch ?? '').join('\n') }))
+    .filter((sample) => sample.content.trim().length > 0)
+  const patchHunks = changedFiles.reduce((sum, file) => sum + countHunks(file.patch ?? ''), 0)
+  const addedLines = pullRequest.additions ?? changedFiles.reduce((sum, file) => sum + file.additions, 0)
+  const deletedLines = pullRequest.deletions ?? changedFiles.reduce((sum, file) => sum + file.deletions, 0)
+
+  const detectorRun = runDetectors({
+    commits: { list: commits, segmentStarts: [], analysis: commitResult },
+    samples: addedSamples,
+    rules,
+  })
+  const { indicators, scoring } = scoreDetectorRun(detectorRun)
+
+  const elapsed = Date.now() - startedAt
+  const analysis: RepoAnalysis = {
+    repoId,
+    repoName: `${owner}/${repo} #${pullRequest.number}`,
+    host,
+    slopScore: scoring.overall,
+    confidence: scoring.confidence,
+    stage: 'final',
+    semantics: 'likelihood',
+    indicators: [...indicators, ...(detectorRun.quality?.indicators ?? [])],
+    files: buildFileAnalyses(detectorRun.files),
+    authors: commitResult.authors,
+    tools: attributeAiTools(
+      changedFiles.map((file) => ({ name: file.filename.split('/').pop() ?? file.filename, path: file.filename, type: 'file' as const })),
+      addedSamples.filter((sample) => isToolArtifact(sample.path)),
+      commitResult.aiMatches
+    ),
+    quality: detectorRun.quality?.summary,
+    pullRequest: {
+      number: pullRequest.number,
+      title: pullRequest.title,
+      headSha: pullRequest.head.sha,
+      changedFiles: pullRequest.changed_files ?? changedFiles.length,
+      additions: addedLines,
+      deletions: deletedLines,
+    },
+    scoreBreakdown: scoring.breakdown,
+    diagnostics: {
+      timingMs: {
+        startedAt,
+        timeToFirstBadge: elapsed,
+        timeToFinalScore: elapsed,
+      },
+      requestCount,
+      sampledFiles: addedSamples.length,
+      detectorVersions: detectorRun.versions,
+      ruleCatalogVersion: rules.version,
+      featureValues: {
+        ...roundSignals(detectorRun.signals),
+        ...detectorRun.featureValues,
+        pullRequestCommits: commits.length,
+        changedFiles: changedFiles.length,
+        patchHunks,
+        addedLines,
+        deletedLines,
+      },
+      scoreContributions: scoring.contributions,
+      evidenceStrength: scoring.evidenceStrength,
+      modelVersion: scoring.modelVersion,
+      modelInputs: scoring.modelInputs,
+      ...detectorRun.diagnostics,
+    },
+    cache: {
+      isCached: false,
+      cacheKey,
+    },
+    timestamp: Date.now(),
+  }
+
+  return analysis
+}
+
+export function buildFileAnalyses(fileSignals: Record<string, Partial<FileSignals>>): FileAnalysis[] {
+  return Object.entries(fileSignals)
+    .map(([path, entry]) => {
+      const commentSignal = entry.commentSignal ?? 0
+      const similarity = entry.similarity ?? 0
+      return {
+        path,
+        score: calculateFileScore({
+          commentSignal,
+          codePatternSignal: entry.codePatternSignal ?? 0,
+          proseSignal: entry.proseSignal ?? 0,
+          similarity,
+        }),
+        commentSignal: round(commentSignal),
+        matchedCommentLines: entry.matchedCommentLines ?? 0,
+        codePatternMatches: entry.codePatternMatches ?? 0,
+        similarity: round(similarity),
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+export function scoreDetectorRun(run: DetectorRun): { indicators: SlopIndicator[]; scoring: SlopScore } {
+  const indicators = dedupeIndicators(run.indicators)
+  // Counter-evidence lowers the score through its model weight but is never evidence of anything itself.
+  const counterSignals = new Set(DETECTOR_SIGNALS.filter((spec) => spec.weight < 0).map((spec) => spec.id))
+  const signalValues = run.measured.filter((id) => !counterSignals.has(id)).map((id) => run.signals[id])
+  const scoring = calculateSlopScore(
+    {
+      signals: run.signals,
+      evidenceSignals: signalCount(signalValues),
+      signalValues,
+      mediumHighIndicatorCount: indicators.filter((indicator) => indicator.severity !== 'low').length,
+    },
+    DETECTOR_SIGNALS
+  )
+  return { indicators, scoring }
+}
+
+export function roundSignals(signals: Readonly<Record<string, number>>): Record<string, number> {
+  return Object.fromEntries(Object.entries(signals).map(([id, value]) => [id, round(value)]))
+}
+
+function pickSampleFiles(files: FileNode[], maxFiles: number): FileNode[] {
+  if (files.length <= maxFiles) return files
+
+  const priorityPattern = /(ai|copilot|cursor|claude|gpt|prompt|instruction|generated|scaffold|template|readme|contributing|guide)/i
+  const rootFiles = files.filter((file) => !file.path.includes('/'))
+  const prioritized = files.filter((file) => priorityPattern.test(file.path))
+  const rest = files.filter((file) => !priorityPattern.test(file.path) && !rootFiles.includes(file))
+
+  // Each source file brings the manifest its imports are checked against, ahead of it so the final cut never splits them.
+  const manifests = new Map(files.filter((file) => isManifestFile(file.path)).map((file) => [file.path, file]))
+  const manifestPaths = new Set(manifests.keys())
+  const selection: FileNode[] = []
+  const pushUnique = (file: FileNode) => {
+    if (selection.find((item) => item.path === file.path)) return
+    const manifestPath = nearestManifestPath(file.path, manifestPaths)
+    const manifest = manifestPath ? manifests.get(manifestPath) : undefined
+    if (manifest && !selection.includes(manifest)) selection.push(manifest)
+    selection.push(file)
+  }
+
+  for (const file of prioritized) {
+    if (selection.length >= Math.ceil(maxFiles * 0.45)) break
+    pushUnique(file)
+  }
+  for (const file of rootFiles) {
+    if (selection.length >= Math.ceil(maxFiles * 0.6)) break
+    pushUnique(file)
+  }
+
+  // Spread the remaining slots over source code first, then docs and config.
+  const restCode = rest.filter((file) => classifyFile(file.path) === 'code')
+  const restOther = rest.filter((file) => classifyFile(file.path) !== 'code')
+  for (const pool of [restCode, restOther]) {
+    const remainingSlots = maxFiles - selection.length
+    if (remainingSlots <= 0) break
+
+    const step = Math.max(pool.length / remainingSlots, 1)
+    for (let i = 0; i < remainingSlots && selection.length < maxFiles; i++) {
+      const item = pool[Math.floor(i * step)]
+      if (item) pushUnique(item)
+    }
+  }
+
+  return selection.slice(0, maxFiles)
+}
+
+function describeTemplateMatch(match: TemplateMatch): string {
+  return `Known template: ${match.name} at ${match.root || 'repo root'} (${match.verbatimFiles} verbatim file(s) excluded, ${match.scaffoldFiles} scaffold file(s) discounted)`
+}
+
+export function summarizeCommitSampling(history: CommitHistory): CommitSampling {
+  const timestamps = history.commits
+    .map((commit) => new Date(commit.commit.author.date).getTime())
+    .filter((time) => !Number.isNaN(time))
+
+  return {
+    commits: history.commits.length,
+    pagesFetched: history.pagesFetched,
+    totalPages: history.totalPages,
+    oldestCommitDate: timestamps.length > 0 ? new Date(Math.min(...timestamps)).toISOString() : undefined,
+    newestCommitDate: timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : undefined,
+  }
+}
+
+function pickCommitSample(commits: GitHubCommit[], maxCommits: number): GitHubCommit[] {
+  const candidates = commits.filter((commit) => (commit.parents?.length ?? 1) <= 1 && !isBotCommit(commit))
+  if (candidates.length <= maxCommits) return candidates
+
+  const step = candidates.length / maxCommits
+  return Array.from({ length: maxCommits }, (_, i) => candidates[Math.floor(i * step)])
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+  const output: R[] = new Array(items.length)
+  let index = 0
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (index < items.length) {
+      const currentIndex = index
+      index++
+      output[currentIndex] = await mapper(items[currentIndex])
+    }
+  })
+
+  await Promise.all(workers)
+  return output
+}
+
+export function dedupeIndicators(indicators: SlopIndicator[]): SlopIndicator[] {
+  const seen = new Set<string>()
+  const deduped: SlopIndicator[] = []
+
+  for (const indicator of indicators) {
+    const key = `${indicator.type}:${indicator.description}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    deduped.push(indicator)
+  }
+
+  return deduped
+}
+
+function signalCount(values: number[]): number {
+  return values.filter((value) => value >= 0.2).length
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,140 @@
+import corePack from './rules.json'
+
+export type RuleTarget = 'commit' | 'comment' | 'path' | 'content'
+
+// Category picks the detector tally a rule feeds; target says what text it is matched against.
+export type RuleCategory = 'ai-wording' | 'ai-trailer' | 'bulk' | 'narrative' | 'assistant-comment' | 'marker' | 'stub' | 'config-file'
+
+export interface RuleDefinition {
+  id: string
+  description: string
+  target: RuleTarget
+  category: RuleCategory
+  pattern: string
+  flags?: string
+  exclude?: string
+  // Tool credited by tool attribution when this rule matches.
+  tool?: string
+  // How much one match counts towards its detector's tally; 0 disables the rule.
+  weight: number
+  examples: string[]
+}
+
+export interface RulePack {
+  id: string
+  version: string
+  description?: string
+  rules: RuleDefinition[]
+}
+
+export interface Rule extends Omit<RuleDefinition, 'pattern' | 'exclude' | 'flags'> {
+  pattern: RegExp
+  exclude?: RegExp
+  pack: string
+}
+
+export interface RuleCatalog {
+  version: string
+  rules: Rule[]
+}
+
+const TARGETS: RuleTarget[] = ['commit', 'comment', 'path', 'content']
+const CATEGORIES: Record<RuleCategory, RuleTarget> = {
+  'ai-wording': 'commit',
+  'ai-trailer': 'commit',
+  bulk: 'commit',
+  narrative: 'commit',
+  'assistant-comment': 'comment',
+  marker: 'content',
+  stub: 'content',
+  'config-file': 'path',
+}
+const MAX_RULE_WEIGHT = 5
+
+export const CORE_RULE_PACK = corePack as RulePack
+
+export const DEFAULT_RULES = buildRuleCatalog()
+
+// Later packs replace earlier rules with the same id, so a pack can retune or disable core rules.
+export function buildRuleCatalog(packs: RulePack[] = []): RuleCatalog {
+  const rules = new Map<string, Rule>()
+  for (const pack of [CORE_RULE_PACK, ...packs]) {
+    for (const definition of pack.rules) {
+      // Content rules count every occurrence; the others are tested once and must stay stateless.
+      const flags = (definition.flags ?? 'i').replace(/[gy]/g, '')
+      rules.set(definition.id, {
+        ...definition,
+        pattern: new RegExp(definition.pattern, definition.target === 'content' ? `${flags}g` : flags),
+        exclude: definition.exclude ? new RegExp(definition.exclude, flags) : undefined,
+        pack: pack.id,
+      })
+    }
+  }
+
+  return {
+    version: [CORE_RULE_PACK, ...packs].map((pack) => `${pack.id}@${pack.version}`).join('+'),
+    rules: [...rules.values()].filter((rule) => rule.weight > 0),
+  }
+}
+
+export function rulesFor(catalog: RuleCatalog, category: RuleCategory): Rule[] {
+  return catalog.rules.filter((rule) => rule.category === category)
+}
+
+// Validates an imported pack; every rule must compile and match its own examples.
+export function parseRulePack(text: string): RulePack {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Rule pack is not valid JSON')
+  }
+
+  const pack = data as Partial<RulePack>
+  if (!pack || typeof pack.id !== 'string' || !pack.id || typeof pack.version !== 'string' || !Array.isArray(pack.rules)) {
+    throw new Error('Rule pack needs an id, a version and a rules array')
+  }
+  if (pack.id === CORE_RULE_PACK.id) {
+    throw new Error(`Rule pack id "${pack.id}" is reserved`)
+  }
+
+  const rules = pack.rules.map((rule: Partial<RuleDefinition>, index) => {
+    const label = typeof rule?.id === 'string' ? rule.id : `#${index + 1}`
+    if (typeof rule?.id !== 'string' || !rule.id) throw new Error(`Rule ${label} has no id`)
+    if (typeof rule.description !== 'string') throw new Error(`Rule ${label} has no description`)
+    if (!rule.target || !TARGETS.includes(rule.target)) throw new Error(`Rule ${label} has an unknown target`)
+    if (!rule.category || CATEGORIES[rule.category] !== rule.target) {
+      throw new Error(`Rule ${label} has a category that does not fit target "${rule.target}"`)
+    }
+    if (typeof rule.weight !== 'number' || rule.weight < 0 || rule.weight > MAX_RULE_WEIGHT) {
+      throw new Error(`Rule ${label} needs a weight between 0 and ${MAX_RULE_WEIGHT}`)
+    }
+    if (!Array.isArray(rule.examples) || rule.examples.length === 0) throw new Error(`Rule ${label} needs example matches`)
+
+    if (typeof rule.pattern !== 'string' || !rule.pattern) throw new Error(`Rule ${label} has an empty pattern`)
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(rule.pattern, (rule.flags ?? 'i').replace(/[gy]/g, ''))
+      if (rule.exclude) new RegExp(rule.exclude, 'i')
+    } catch {
+      throw new Error(`Rule ${label} has an invalid pattern`)
+    }
+    const miss = rule.examples.find((example) => !pattern.test(example))
+    if (miss !== undefined) throw new Error(`Rule ${label} does not match its example "${miss}"`)
+
+    return {
+      id: rule.id,
+      description: rule.description,
+      target: rule.target,
+      category: rule.category,
+      pattern: rule.pattern,
+      flags: rule.flags,
+      exclude: rule.exclude,
+      tool: rule.tool,
+      weight: rule.weight,
+      examples: rule.examples,
+    }
+  })
+
+  return { id: pack.id, version: pack.version, description: pack.description, rules }
+}
@@ -1,113 +1,87 @@
-import type { AnalysisConfidence, FeatureContribution, SlopScore } from './types'
+import type { AnalysisConfidence, FeatureContribution, ScoreBreakdown, SlopScore } from './types'
+import { DEFAULT_MODEL, DERIVED_INPUTS, predictLikelihood, sigmoid, type ScoringModel } from './model'
 
 export interface ScoringFeatures {
-  configSignal: number
-  commitLanguageSignal: number
-  commitBurstSignal: number
-  commentPatternSignal: number
-  repetitionSignal: number
-  structureUniformitySignal: number
+  signals: Record<string, number>
   evidenceSignals: number
   signalValues?: number[]
-  indicatorCount?: number
   mediumHighIndicatorCount?: number
 }
 
-export function calculateSlopScore(features: ScoringFeatures): SlopScore {
-  const weights = {
-    configSignal: 0.16,
-    commitLanguageSignal: 0.29,
-    commitBurstSignal: 0.12,
-    commentPatternSignal: 0.18,
-    repetitionSignal: 0.15,
-    structureUniformitySignal: 0.1,
-  }
+// A scored signal as declared by a detector; weight is the prior the model was seeded from, 0 marks evidence-only
+// signals and a negative weight marks counter-evidence.
+export interface SignalSpec {
+  id: string
+  weight: number
+  group?: keyof ScoreBreakdown
+  notes: string
+}
 
-  const buildContribution = (
-    feature: keyof typeof weights,
-    raw: number,
-    notes: string
-  ): FeatureContribution => {
-    const normalized = clamp(raw, 0, 1)
-    const weight = weights[feature]
-    return {
-      feature,
-      raw: round(raw),
-      normalized: round(normalized),
-      weight: round(weight),
-      contribution: round(normalized * weight * 100),
-      notes,
-    }
-  }
+export interface FileScoringFeatures {
+  commentSignal: number
+  codePatternSignal: number
+  proseSignal: number
+  similarity: number
+}
 
-  const contributions: FeatureContribution[] = [
-    buildContribution('configSignal', features.configSignal, 'AI-specific config and instruction files'),
-    buildContribution('commitLanguageSignal', features.commitLanguageSignal, 'Commit language and narrative structure typical of AI-assisted workflows'),
-    buildContribution('commitBurstSignal', features.commitBurstSignal, 'Bursty commit cadence and bulk-change messaging'),
-    buildContribution('commentPatternSignal', features.commentPatternSignal, 'Prompt-like comments and AI boilerplate phrasing'),
-    buildContribution('repetitionSignal', features.repetitionSignal, 'Similarity across sampled code files'),
-    buildContribution('structureUniformitySignal', features.structureUniformitySignal, 'Uniform scaffold/module shape patterns'),
-  ]
+export function calculateFileScore(features: FileScoringFeatures): number {
+  const similaritySignal = boundedScale(features.similarity, 0.3, 0.8)
+  const textSignal = Math.max(features.commentSignal, features.proseSignal)
+  const weighted =
+    (clamp(textSignal, 0, 1) * 0.45) +
+    (clamp(features.codePatternSignal, 0, 1) * 0.35) +
+    (similaritySignal * 0.2)
+  const strongest = Math.max(textSignal, features.codePatternSignal, similaritySignal)
+  return clamp(Math.round(Math.max(weighted, strongest * 0.7) * 100), 0, 100)
+}
 
-  const rawScore = contributions.reduce((sum, item) => sum + item.contribution, 0)
+export function calculateSlopScore(features: ScoringFeatures, specs: SignalSpec[], model: ScoringModel = DEFAULT_MODEL): SlopScore {
   const evidenceStrength = deriveEvidenceStrength(features.evidenceSignals, features.signalValues ?? [])
-  const confidence = scoreConfidence(rawScore, evidenceStrength)
-  const strongSignals = (features.signalValues ?? []).filter((value) => value >= 0.25).length
   const mediumHighIndicators = features.mediumHighIndicatorCount ?? 0
-  const indicatorCount = features.indicatorCount ?? 0
-
-  let adjustedScore = rawScore
-  if (rawScore < 25 && strongSignals >= 2) {
-    adjustedScore = rawScore + 12
-  }
-  if (rawScore < 35 && features.commentPatternSignal >= 0.2 && features.commitBurstSignal >= 0.35) {
-    adjustedScore = Math.max(adjustedScore, 30)
-  }
-  if (features.commitLanguageSignal >= 0.5 && features.commitBurstSignal >= 0.35 && rawScore < 45) {
-    adjustedScore = Math.max(adjustedScore, 42)
+  const raw: Record<string, number> = { ...features.signals, mediumHighIndicators, evidenceStrength }
+  const inputs: Record<string, number> = {
+    ...Object.fromEntries(specs.map((spec) => [spec.id, clamp(features.signals[spec.id] ?? 0, 0, 1)])),
+    mediumHighIndicators: clamp(mediumHighIndicators / 5, 0, 1),
+    evidenceStrength,
   }
-  if (
-    features.commitBurstSignal >= 0.45 &&
-    features.commentPatternSignal >= 0.14 &&
-    mediumHighIndicators >= 3
-  ) {
-    adjustedScore = Math.max(adjustedScore, 62)
-  }
-  if (features.commitLanguageSignal >= 0.35 && mediumHighIndicators >= 2 && indicatorCount >= 4) {
-    adjustedScore = Math.max(adjustedScore, 56)
-  }
-  if (features.commitLanguageSignal >= 0.5 && features.commitBurstSignal >= 0.35 && mediumHighIndicators >= 3) {
-    adjustedScore = Math.max(adjustedScore, 62)
-  }
-  if (mediumHighIndicators >= 4 && evidenceStrength >= 0.45) {
-    adjustedScore = Math.max(adjustedScore, 68)
-  }
-  if (mediumHighIndicators >= 5 && evidenceStrength >= 0.5) {
-    adjustedScore = Math.max(adjustedScore, 75)
-  }
-  if (evidenceStrength < 0.2) {
-    adjustedScore = Math.min(adjustedScore, 40)
-  }
-
+  const { probability, terms } = predictLikelihood(model, inputs)
+
+  // Spread the lift over the intercept-only likelihood across features in proportion to their log-odds terms.
+  const totalTerms = Object.values(terms).reduce((sum, term) => sum + term, 0)
+  const share = totalTerms === 0 ? 0 : ((probability - sigmoid(model.intercept)) * 100) / totalTerms
+  const contributions: FeatureContribution[] = Object.entries(model.coefficients).map(([feature, coefficient]) => ({
+    feature,
+    raw: round(raw[feature] ?? 0),
+    normalized: round(inputs[feature] ?? 0),
+    weight: round(coefficient),
+    contribution: round(terms[feature] * share),
+    notes: specs.find((spec) => spec.id === feature)?.notes ?? DERIVED_INPUTS[feature] ?? '',
+  }))
+
+  const overall = clamp(Math.round(probability * 100), 0, 100)
   return {
-    overall: clamp(Math.round(adjustedScore), 0, 100),
+    overall,
     breakdown: {
-      configs: sumContributions(contributions, ['configSignal']),
-      commits: sumContributions(contributions, ['commitLanguageSignal', 'commitBurstSignal']),
-      patterns: sumContributions(contributions, ['commentPatternSignal']),
-      structure: sumContributions(contributions, ['structureUniformitySignal']),
-      repetition: sumContributions(contributions, ['repetitionSignal']),
+      configs: sumContributions(contributions, specs, 'configs'),
+      commits: sumContributions(contributions, specs, 'commits'),
+      patterns: sumContributions(contributions, specs, 'patterns'),
+      structure: sumContributions(contributions, specs, 'structure'),
+      repetition: sumContributions(contributions, specs, 'repetition'),
     },
-    confidence,
+    confidence: scoreConfidence(overall, evidenceStrength),
     evidenceStrength: round(evidenceStrength),
     contributions,
+    modelVersion: model.modelVersion,
+    modelInputs: Object.fromEntries(Object.entries(inputs).map(([feature, value]) => [feature, round(value)])),
   }
 }
 
 function sumContributions(
   contributions: FeatureContribution[],
-  featureNames: string[]
+  specs: SignalSpec[],
+  group: keyof ScoreBreakdown
 ): number {
+  const featureNames = specs.filter((spec) => spec.group === group).map((spec) => spec.id)
   return Math.round(
     contributions
       .filter((item) => featureNames.includes(item.feature))
@@ -138,7 +112,7 @@ function clamp(value: number, min: number, max: number): number {
   return value
 }
 
-function round(value: number): number {
+export function round(value: number): number {
   return Math.round(value * 100) / 100
 }
 
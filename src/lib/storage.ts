@@ -1,7 +1,15 @@
 import type { Settings, RepoAnalysis } from './types'
+import type { ForgeHost } from './hosts'
+import type { RulePack } from './rules'
+import type { Recording } from './dataSource'
 
 const SETTINGS_KEY = 'ai-slop-meter-settings'
 const CACHE_KEY_PREFIX = 'ai-slop-meter-cache-'
+const RECORDING_KEY_PREFIX = 'ai-slop-meter-recording-'
+const RECORDING_INDEX_KEY = 'ai-slop-meter-recordings'
+// Recordings hold whole trees and file contents; keep only the newest few within the storage quota.
+const MAX_RECORDINGS = 5
+export const DEFAULT_COMMIT_PAGE_BUDGET = 4
 
 export async function saveToken(token: string): Promise<void> {
   const settings = await getSettings()
@@ -9,6 +17,18 @@ export async function saveToken(token: string): Promise<void> {
   await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
 }
 
+export async function saveForgeHosts(forgeHosts: ForgeHost[]): Promise<void> {
+  const settings = await getSettings()
+  const newSettings: Settings = { ...settings, forgeHosts }
+  await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+}
+
+export async function saveRulePacks(rulePacks: RulePack[]): Promise<void> {
+  const settings = await getSettings()
+  const newSettings: Settings = { ...settings, rulePacks }
+  await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+}
+
 export async function getToken(): Promise<string | undefined> {
   const settings = await getSettings()
   return settings.githubToken
@@ -20,10 +40,20 @@ export async function getSettings(): Promise<Settings> {
   return {
     autoAnalyze: settings?.autoAnalyze ?? false,
     darkMode: settings?.darkMode ?? false,
+    commitPageBudget: settings?.commitPageBudget ?? DEFAULT_COMMIT_PAGE_BUDGET,
+    rulePacks: settings?.rulePacks ?? [],
+    recordScans: settings?.recordScans ?? false,
+    forgeHosts: settings?.forgeHosts ?? [],
     githubToken: settings?.githubToken,
   }
 }
 
+export function onSettingsChanged(listener: () => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && SETTINGS_KEY in changes) listener()
+  })
+}
+
 export async function cacheAnalysis(repoId: string, data: RepoAnalysis): Promise<void> {
   const key = `${CACHE_KEY_PREFIX}${repoId}`
   await chrome.storage.local.set({ [key]: data })
@@ -48,9 +78,30 @@ export async function getCachedAnalysisByKey(cacheKey: string): Promise<RepoAnal
   return analysis || null
 }
 
+// Only the latest recording per repository or pull request is kept, and only for the newest MAX_RECORDINGS targets.
+export async function saveRecording(repoId: string, recording: Recording): Promise<void> {
+  const result = await chrome.storage.local.get(RECORDING_INDEX_KEY)
+  const previous = (result[RECORDING_INDEX_KEY] as string[] | undefined) ?? []
+  const index = [repoId, ...previous.filter((id) => id !== repoId)]
+  const evicted = index.splice(MAX_RECORDINGS)
+  if (evicted.length > 0) {
+    await chrome.storage.local.remove(evicted.map((id) => `${RECORDING_KEY_PREFIX}${id}`))
+  }
+  await chrome.storage.local.set({ [`${RECORDING_KEY_PREFIX}${repoId}`]: recording, [RECORDING_INDEX_KEY]: index })
+}
+
+export async function getRecording(repoId: string): Promise<Recording | null> {
+  const key = `${RECORDING_KEY_PREFIX}${repoId}`
+  const result = await chrome.storage.local.get(key)
+  return (result[key] as Recording | undefined) ?? null
+}
+
+// Drops cached analyses and scan recordings alike.
 export async function clearAnalysisCache(): Promise<number> {
   const allItems = await chrome.storage.local.get(null)
-  const cacheKeys = Object.keys(allItems).filter((key) => key.startsWith(CACHE_KEY_PREFIX))
+  const cacheKeys = Object.keys(allItems).filter(
+    (key) => key.startsWith(CACHE_KEY_PREFIX) || key.startsWith(RECORDING_KEY_PREFIX) || key === RECORDING_INDEX_KEY
+  )
   if (cacheKeys.length > 0) {
     await chrome.storage.local.remove(cacheKeys)
   }
@@ -0,0 +1,300 @@
+import type { FileNode } from './types'
+
+export interface TemplateSpec {
+  id: string
+  name: string
+  // Relative paths (`*` matches within one segment) that identify the template's layout.
+  shape: string[]
+  minShapeMatches: number
+  // Git blob SHAs of files the official generator emits verbatim, across recent versions.
+  fingerprints: string[]
+}
+
+export const TEMPLATES: TemplateSpec[] = [
+  {
+    id: 'vite',
+    name: 'Vite',
+    shape: ['vite.config.*', 'index.html', 'src/main.*', 'src/App.*', 'public/vite.svg', 'src/assets/*.svg', 'src/vite-env.d.ts', 'tsconfig.node.json'],
+    minShapeMatches: 3,
+    fingerprints: [
+      '00a7cc1e9e6de05b7a415aca2aa255f42477961e', '021398f5a0383b42eb1d54167fe4f072a94b387e', '02251f4b956c55af2d76fd0788124d7eee2b45eb',
+      '025aa303c5e3a97dff4f3bcc4ac3015e9e236220', '02f0a5f9bd87eb3cf81e52d003732129a7ba06d2', '045bd6bd4f97859fe0a50e33a1fe3303f2f8eb1e',
+      '05c17402a4a92b87397786592fc5135e13b7a666', '06edbb577c8ddc1cd2aa76dcff606d147c0f8c46', '088ed3ace55196332f587b0aa5e35a77ee9ef3c8',
+      '08a3ac9e1e5c44ce374f782d7c4fa3aa70e4c1ff', '08a46e2da85814fbda40b8e965132ff344d185fb', '0906f9ca5ea46fa7481d645fa1fd380cba0428ad',
+      '092408a9f09eae19150818b4f0db5d1b70744828', '09e5afd2d8ad2b43f4c8073eef5ad57688caef7b', '0b310b4db7b2475d9dd5d441aaabd75e597717a2',
+      '0c589eccd4d48e270e161a1ab91baee5e5f4b4bc', '0cf7db32af959f537d7098309dd76390c6a05a1a', '0d0a8a8aa2d7a8fa37a6e45014949bdab3efa55a',
+      '0d65579a463d9697d1a72dfe94cf84a7e26e22eb', '1187f87a5a7d96f3bb22163adc9516de949192ac', '11f02fe2a0061d6e6e1f271b21da95423b448b32',
+      '1255078235d0ce4e80ac34866d5ce2af89aa6220', '12bf115b81c84ff7ad77a9b0f5356028c160bd49', '1511959c22b74118c06679739cf9abe2ceeea48c',
+      '167c567952a23fa74823005276998b064128bc12', '174b3f1dc0bb2db2b7e2581ce35d5bf440f617cc', '1ebe379f5f423c7dcc8775d39ffd571117fb89f8',
+      '1f31354ec8cfeb0aba020941020e8288a4a129c6', '1ffef600d959ec9e396d5a260bd3f5b927b2cef8', '206b5e04a9b2b9159be0390996ddb873748d0257',
+      '20bf4c97a6b08d09e9c20d1783f51cab4845d9aa', '21abced1d38ea61f27a4738662f111bc273aa2d8', '227a6c6723b6136d17cdcd42288a01a5e5abcd25',
+      '238d2e4e6436b353404369d9a59fda5f1f980657', '2425c0f745bef4d009cb6661b62fd9dfd62960b0', '247a738958048d8fb7c45e38a57c4dec85050f4b',
+      '265516bb27eff9549621b9780419ac34e1742dd2', '26b04677214d6497d82ab9e7e939ca8688b8468c', '283e961039bd38d1c8c129991932b7d3f07ecd7a',
+      '29b326faf09c978573c7ea001b133b214d7e6b93', '2bdd44fc2b62e475a8e1faf01291b7e827625ea0', '2c3fac689c7c4680cfb84bc0746512858b90b908',
+      '2c84af069a9d5a22b28df0a263fcc7b4f4b5a5b9', '2ce5efa714514d7897864dd89241cc74ac57c3a8', '30aa814103bb1115008eebea7b2cec29bce231bc',
+      '32d1e90f514abaa2e499533cb4c8e4ddb3042190', '33895ab2002862766f2df205d5783f14cd0c1d74', '341dbf0b097786d8ab5f82b6d100dc70909f8823',
+      '343021ac1211cdf0541987c60e157f96ff863708', '35a3dfbd454e02990f00e92c0553d7ed2e95513b', '37d75ce76f59c812d02ac54c15ce89c94ea7a08a',
+      '382941e05ce856375bdf45756265ffa4079c5236', '388b05e27d21783645aa320829b5918499a5075c', '3999958409cd1dd226b37983cac6d74fcd666559',
+      '3ab6fcc362fb5dad70fde1a16d0a7f31d057dc2b', '3acdaacda3074972e4384507070520a1566515fb', '3bcdbd00d55e3eb8cf2cde077a15798667cb7d35',
+      '3d08438199d14c4d755e2e2a32c2e02752c7635f', '3d38e144d3f32a04bc34be705faf747d5b6c8874', '3d7150da80e43e3650342aa4758fa8b74e95d6d6',
+      '3d7ded3ff62424046af18e2b5b8b8324c7e0001d', '3dbbc453c3027281f2b50fc96ffca6213e1ff799', '3e2ec7891eeb84be167d2c53222f299dc1866331',
+      '3e7499b65d423b6a635dca6c04e8788e66690f52', '40366c3ed27fe75a96266b0c2ecec49070be5e13', '4078e7476a2eaf5705d327b5c9d459c234c01652',
+      '408b690312ad5930a2e64c5ee4342ec8a9535e9e', '4095d9be507defa2b196ee1dae8c7587ac532058', '42872c59f5b01c9155864572bc2fbd5833a7406c',
+      '446731c9d6d51433ce32c55a138f4af39e1b82a1', '44a933506f235031f064c7c31d34a3390227795a', '458c7a8a87172365c36f439b3c75a7a85dd12d5c',
+      '494bfe0835347cf0c0cf2edead124810ffc34e1e', '4a9c1fe662ea4eb60c8d0bbdaab0bd50ed6845b7', '4ab6f238911d9eda9152120bf93735c825c002be',
+      '4c74f90722f9d4518b071f4e2d0c8c716fa179bb', '4dcb43901a687f5fa7e3867d9964a76861973151', '4e54422cb62cac8a3ffba052dd813cd37691b575',
+      '4e67b2709f0624dde1f8829389cc243f8aac6d62', '4f5edc248c888b86c78b83fb8a88b9f914f7faa0', '4ffca5c897a3e9ec202e9dc3e046d4b600ba7500',
+      '5101b674df391399da71c767aa5c976426c9dc7a', '51addad385bf112c314d6a8e8e19091828545e97', '527d4fba5579d5e4e9d260051974927071f2b4a1',
+      '546ebbc624b0e3baf58efc6a8dd149ac5e6074e6', '54a2631e8d47495c3e99ab2ac5ccf8124f3674ae', '54b39dd1d900e866bb91ee441d372a8924b9d87a',
+      '55a2f9b6548ebf5b6d8fbe87c2cd9fdf8c2492a9', '5696a2de74a0cd7a068a01a905e1055a133192aa', '58b0f21b1647b34ed23f23fc6488eb4f811c405e',
+      '594488ac3aaab1a7e2b54736d063275b2bcfbe31', '5992dcc690ea2ecdc5a5d7ae7249812cab180394', '5a33944a9b41b59a9cf06ee4bb5586c77510f06b',
+      '5caea17215bd5e683ddac60f6a1758ff3031e8f1', '5f046bd049451bc6f3f703fb33b7a6a5c20f73a8', '5f0a5ca5f49a8ea3c8a88581e30a0e1c33668c71',
+      '5fb33130220482ba51683f2f43660cca10f174d9', '5fc33587a255776191df88edb828ae42e5148aaf', '6119ad9a8faaa5073a454f67b50fb98a25972fd2',
+      '613607d40c7e527d4bc95f27fe0dbce95132d986', '617f5e93c0a72d292f814113fa72fb5f02b4a011', '61ba367832ad77dd81568fe7b66af119713fb56f',
+      '62ebe1b47351655b0dae1db8e6e018a8d02b9be6', '6396b50a2321dd8def9b2cb80c4af2b317304b16', '63b8025d125f09f1a06a5221595a2731d2420ac8',
+      '64b24cbabc0379dcfc3ae04c508ab9d4e7edc77d', '659d065fe5362b49be8e5b0f7fe4b21c2c1d814b', '664a057afa0f4922490083dffada64a6a626bedf',
+      '6830b6f759f55aec32f0a2fd367ee63cf68db8b7', '6893eb13237060adc0c968a690149a49faa2d7d3', '69e31ac92882e3b5830fd604efb81d7f93466cf6',
+      '6ac7886399f326bc581c293f112f0b9a1dec11c2', '6c87de9bb3358469122cc991d5cf578927246184', '6c9d69ce434daebca8efde5b116b7cd41dc99b0e',
+      '6d895a9c64dc8a5333f3ebf038aefecc80b8e4a1', '6fa991dad24b57eb19c9cefba8ea12fd1870ed07', '7021737018435711ab4fc1dadf7bc05ef7e268b4',
+      '7059a962adb0138b65dd10e0aee66ccfe984b8c6', '727cca2407134f2df3b0edbe0b24b1eec4e17d6b', '7294765e0c06155f91a97ac56acbb125a0b27a61',
+      '72ba3a8b37bcc9916b33f076b6ea43ef1a799f56', '74872fd4af60fb8d6cdb7d27e6c587ee0b6e1df7', '75abdef26594460f62f904bf54b54377573c9209',
+      '75c05b1a1e9ad74f49d31fd140ecaeda05fe3688', '762d624f49c28d8c5e19b674703d2b50fd03bba1', '764c7c885117f19eb3c35020b09252f292eaddc1',
+      '770c9226778ffb026c6b6a9a86638538b42f2350', '770e9d333ee70e75fe7c0bad7fb13e4f6ed4627a', '78058e1b84c81142c630923973ff7a7cfcaa548f',
+      '784b1d49e4389bf653b124966f3c3fc08f207a44', '78dd6f4b1c0a2127bb410601abeff813201dc9b2', '791547b0d382f563cda5025c966da22db8f3fe32',
+      '7acc5b9fb79586a5a7f75b54f6790bb99828d418', '7b25f3f2b6aac3ca06999877b9ba14e1e1c1181d', '7ba572c6911878fe2c8d89f2b0d2d5b85a7ac413',
+      '81196fe97fb0a979b78e3e0b88f94890e56a3bc9', '8161b1994224e3d0156435726ac4346ea3ad8d4a', '81c28ec8cdf4a4b8f280e82aff7af8f722eefd21',
+      '8388c4bb136ea674b07747cc20b113af58222ffe', '8455dcbc2c947322adef8783a42741878edaea9c', '846cd1e988102e3917b3b2d7956bad96734759cc',
+      '84a005078026c4278665416af9b7522f632c697a', '881e2d7adf529f53f42db6b89252f17723f30804', '8847c9afe472d14cf3f27fd921be0f625cc4e7f2',
+      '88b188f6d0d9b06d76a6be90df2c5d424dc7d3b4', '8a909a15a0ebffc001e639084f10d592f0a73ebc', '8b0f57b91aeb45c54467e29f983a0893dc83c4d9',
+      '8c07d8ff7af2e2113f74bf6232fdf5efb36fdc0a', '8d1ba56442deff82df5edd1afb8396d76408300b', '8df73e3b2d7df3fb5c3fd14e602f9c9eac2d86f1',
+      '908f17def0b5a4d58903b35009c8946d214a2d80', '931d312effc3e61a81123bf3aec34a50f1f10fd0', '93e250bf04b1720aa81c7e5212454b6027e6c812',
+      '94bafbff0b129d3d27be4675e3c903436345a3f3', '9601de01f1429dec16443bac4f27f45e59b56318', '96b345548bc42c0b431ce3570de2cf6db56149df',
+      '9728af2d81af0efc7985ffc705287be4bad10ba4', '979b4dfc91c86e8e860b194a6507a0143ee9e04f', '99613fc0a5d37f5fcdef38ca1f7123ee48c9164b',
+      '9982072c14949379a05b48f656856691a6f0ab86', '9a0b51fd991df4eb0fa1a2079bba26c9722b9321', '9a262f041fc748abd7f7303b77240f7c27c2f7d1',
+      '9a3384e7894b92470a30b4e1c9f77d711c4299f4', '9ca8e8d41e0ccaf5a523f33491a5d2672f1051a0', '9f629e86839426ec507333f1a7d10dcdb388b8c8',
+      '9f9324aca711b58e424a9aca26f9820cbc31790c', 'a22caba90a9290c10e2312a7af7684e7dd25ff02', 'a2e3363dc380de42ba60efc8fe99b85b9bbb2659',
+      'a547bf36d8d11a4f89c59c144f24795749086dd1', 'a6b48400dce9817523be3a83ce73252c5d340a4e', 'a78d9a4c69f2acc586afba934d6dcb3ae6212271',
+      'a7cea0b0678120a1b590d1b6592c7318039b9179', 'a7fc6fbf23de2a53e36754bc4a2c306d0291d7b2', 'a80d6d78ff940e77676669470b72c4a0c70e80d9',
+      'a86963e1e867c73a012b3c5945640f805d2e5711', 'ab0c0929b48615c6a97b8d00b16aac8e8f23cc70', 'abcd7f0dacddc7a2b68e2c81235dc55d2e1ecad9',
+      'abf9d15f51a3e69ca9c6f6fb7b687add21603389', 'ae54c6f852fef7d8e15987b6588077a82455722f', 'af7bf042c3ac05a22bf0ec10d53da0c8c35ed56b',
+      'afe48ac750194a747f5665300d14049f72011a33', 'b0683fd24d70abb7eeaeef8e39e3a12b4e74775a', 'b088b63d9dad7c55ba4d6e98df5526ba4c4b1898',
+      'b19330b103a5dff2c35a37637addb0cc87e9ac9f', 'b1f47a1d03fd3143dfd5c33bc664c3c9fa444ca2', 'b3812f9b8f821c168b97fd1308a0e2e5a7d4f06c',
+      'b400b4e3d912876f4a97395a5598bfe9653c6a0d', 'b528b6cc28c2c14dd9fff084399198c4aad60479', 'b58e52b965f6f9f340400a843f85ba4bd8156851',
+      'b5e134f0f1ca8019e4e8de97f3dfcbd180da542b', 'b6c5f0afafd6f2e009ed3d2c5de7351bcf7fb12d', 'b74823e655252bceee2dda2d44fbe9c1fa5719cb',
+      'b87aec7223e0162d5f771613a3688b54416fc062', 'b8b8473a3696b4f77deff889a84ab45629c42079', 'b995c32c50b49924ffb1fdda5b87058cc1615830',
+      'b9a1a6deac8775b5598874b2bc3c7971d82cf211', 'b9d355df2a5956b526c004531b7b0ffe412461e0', 'bacc16a6adfd1c4578f29788ef658db6e010c101',
+      'bb131d6b8fe5d93269c14fac087a104cc94af508', 'bb666a8dec3ee03f25d990ab27567a1a3232aea0', 'bbb64ff52d152ff4597a13ac2b30528e699b9d1d',
+      'bbcf80cca93e72ac5583c66d220957216a001f94', 'bdef82015138f5b7e152e7f52faa12e081de932b', 'bebbfc143689593c7146248ae5057f3930c9d340',
+      'bef5202a32cbd0632c43de40f6e908532903fd42', 'bfb172e06b4f32c88fdb27165581a665b1e57ebd', 'c0a6e5a48110e472b09d68afa2a030af6ab3208b',
+      'c1aaa6b6062deb4ed07f2ebe6f96e4b58be7f6b0', 'c38720706c7a52537a4885d5eb8c0caf991eac8f', 'c4e1c5fe6e73a4289fba20b642ac574fcc68281d',
+      'c5e08481f8aede5a6cc897b0f034e806a8617d7d', 'c5e49ef00dce1e4d0f6999e95bfa5708ef3fd77e', 'c7a0b107ab46abadaf2ccb6022338213fd1cfbcd',
+      'c7b06cf334111483ceca2b3b998ab2fd8a0c4eb3', 'c811fcbb39008c99d5a925be055142a8516e4a5a', 'c813736fccfe5f0aff309fd9e8d0749457df931c',
+      'c9ccbd4c59447b9eee284f0b85de748b750299d8', 'cabd66b013a9200ee64ef2c3d3cbbd4102ecf529', 'cb88a5a6c26b2508297ef88b854e3e50eb40b192',
+      'ce047c9160563bc01522cf7f8643a5459a544467', 'ce9c48d9c1876034a21000926a121d232c1a7b75', 'cee1e2c788d908e4a8ff796eb6edbe73ee73fffd',
+      'cfa0c983966e3f820a1e7cc717fc7898695b9386', 'd06ca44370d5316a1380568f564e34f4ebd154cb', 'd2dcca971d8c3b30616b541b815c4a5624cfa8ff',
+      'd32eba1d63fd99b6a1751597fb072c9aca185dfd', 'd5e3c12dea8786a64014a21de703d1d72c8286da', 'd6af7e39ffac6183b891838d6ab1d6eb7ac70dda',
+      'd6c953795300e4256c76542d6bb0fe06f08b5ad6', 'd6eb7c88a3c1469297977c10d227efb74047c857', 'd70196943d0d24fc6f262d0e6c91407a94d21eda',
+      'd72aa750dfe040567ec1f7bce21c1abc0e3972b7', 'd8a418166a4820d3079006b820761ac4fc9b65b1', 'd91c910cc30bf4af39bb51adecdc71dd03d3832e',
+      'd937833bd5b8c9cfc5978ab9f0fcfd68d4d8b42c', 'd9387fd53478c4693f90181bf601058b87e708cd', 'da9844432b833b4bb48e51949af92378b0c83eb7',
+      'dafc575f3f517fd86522af51ed791ad92dd04e83', 'dd25d63de38047af1b0c5995211a00d6a7ab5cdc', 'dde16aaf3671c5f9770aed03d3db0b35486b8357',
+      'df56300cc65f6627bc54bc6a6b81869f97608ff1', 'dfb16790bd8eb638dad85ab48edb4c1fbec2e846', 'e45f903109790d37dfb9a0474b57a90c6f6a0d53',
+      'e4b78eae12304a075fa19675c4047061d6ab920d', 'e5cc3e73005889be3c65abff02ca10c03af27c0e', 'e62e093e7092d1069ce0eb8f8497a66475e45d0b',
+      'e6cd94fce77dcaf1bc79e27a59921f4ad4028523', 'e7b8dfb1b2a60bd50538bec9f876511b9cac21e3', 'e8b590f1f5059976394f8d7a37e6c0d49ba12ef3',
+      'e9522193d9f796a9748e9ad8c952a5df73c87db9', 'ea12b5261440d779ec4ccf358719f6791eb51276', 'ec2b712d301e7ddeca8327fc4b967069cc82047b',
+      'ef08a39af1d9080e172c3317636399fcbe03d4d9', 'ef72fd524245587c08546207b8a2166ebcca3361', 'f14cf2dda61424d9a514a57405f7c84d9d4a9b94',
+      'f4338766f44ed1d79839494d171be14e504344c6', 'f5e4f53b7d9dd0f286ede035d3da2f513810c792', 'f67355ae04c4000eef464262481f6b02daa50789',
+      'f67cd2065b1858b49e49ded093ddeb93d83ccf8d', 'f6913154345dbceb3a705e2583ed9afb3857924e', 'f75b68aa25d9c715d2c7fa808b24516bf89e0f11',
+      'f768e33fc946e6074d6bd3ce5d454853adb3615e', 'f82888f3d0965ccce705eded475631739c36c887', 'f85724c37ab3aae5a852de96f564e36f0f577317',
+      'f85a39906e5571aa351e61e43fff98bc0bedaa27', 'f867de0dd1a8383a72d62b9bc61854bd7ea45e36', 'f90339d8f765fa2c69d9a341959a8ddb9fff5720',
+      'f9abb2b728d73b75ef8020c4846b534663c69a85', 'f9c7350248205709ece1fad0c45ff348d98701f1', 'f9f3afa460b28460e9daf8704f0dffc9bab04825',
+      'feaf27cc9e75d4236417aec41d564cbea8690de9',
+    ],
+  },
+  {
+    id: 'create-react-app',
+    name: 'Create React App',
+    shape: ['public/manifest.json', 'public/robots.txt', 'public/logo192.png', 'public/logo512.png', 'src/reportWebVitals.*', 'src/setupTests.*', 'src/App.test.*', 'src/logo.svg'],
+    minShapeMatches: 3,
+    fingerprints: [
+      '032464fb6ec40a523899b8c8a593242f3108a420', '080d6c77ac21bb2ef88a6992b2b73ad93daaca92', '1f03afeece5ac28064fa3c73a29215037465f789',
+      '2a68616d9846ed7d3bfb9f28ca1eb4d51b2c2f84', '37845757234ccb68531c10cf7a2ffc589c47e342', '49a2a16e0fbc7636ee16bf907257a5282b856493',
+      '4d29575de80483b005c29bfcac5061cd2f45313e', '5253d3ad9e6be6690549cb255f5952337b02401d', '58beeaccd87e230076cab531b8f418f40b6d1aeb',
+      '74b5e053450a48a6bdb4d71aad648e7af821975c', '8f2609b7b3e0e3897ab3bcaad13caf6876e48699', '9dfc1c058cebbef8b891c5062be6f31033d7d186',
+      'a11777cc471a4344702741ab1c8a588998b1311a', 'a4e47a6545bc15971f8f63fba70e4013df88a664', 'a53698aab3c66049c61980112dd0109dd2cd0845',
+      'aa069f27cbd9d53394428171c3989fd03db73c76', 'b87cb00449efa5b6131f56b7e45cc63eddf37373', 'd563c0fb10ba0e42724b21286eb546ee4e5734fc',
+      'e9e57dc4d41b9b46e05112e9f45b7ea6ac0ba15e', 'ec2585e8c0bb8188184ed1e0703c4c8f2a8419b0', 'fc44b0a3796c0e0a64c3d858ca038bd4570465d9',
+    ],
+  },
+  {
+    id: 'nextjs',
+    name: 'Next.js',
+    shape: ['next.config.*', 'next-env.d.ts', 'app/layout.*', 'app/page.*', 'app/globals.css', 'pages/_app.*', 'pages/_document.*', 'public/next.svg', 'public/vercel.svg'],
+    minShapeMatches: 3,
+    fingerprints: [
+      '000a751384cd427fdaa23dd3b33ca34ead7554e0', '004145cddf3f9db91b57b9cb596683c8eb420862', '021681f4dd1493e0d110ff856b660f69ab2dc72d',
+      '02c4dee04910cdb657b6f68f799333059586622b', '05e726d1b4201bc8c7716d2b058279676582e8c0', '08210ccaab532b302080c570a5dceba7ec81aef3',
+      '09a8a4d2c4eadd6bb56f5e72afd0830b38773eaf', '0b4e15f3513770cfe1ed68a4742ec806ae4fc272', '0dc9ea2bcc4104b736ec1c0cf6e6e0d8d82ab07d',
+      '0fa922b6f1d9b47d65f1ce1d63cdb002f4cf3137', '112756e6bfcdc94cd16c96d3e4a3e876accbd326', '11e369a8bab0b706a980655439da153e958cb5e0',
+      '13d40b892057e0e4271c5c8f9fc8db30e80f2409', '141e6a5e7c908e7a5365c4fef49b749e63c59dca', '160eac17fa4875ef8889dd1e5f84c86d288ab0fb',
+      '19709046afd624ff9177b3d2c2c31708d50c4a2b', '1a69fd2a450afc3bf47e08b22c149190df0ffdb4', '1af0b2128ac23bbd86d9172387c45d83a479688f',
+      '1b62daacff96dad6584e71cd962051b82957c313', '1e69deb820e5280845a7adcd96094963b100ea79', '20fced023d3f7b91ec3a559010ab8ee86e04ef66',
+      '21b686d98132abcf2202a699b148aa6a280a0d7e', '23002013d70aa52189700305aacd93dba6849067', '2342325c680cd3779cc72ebe4f6ab9c71409b7f7',
+      '2468ece55204dd3d2879c69473906ce709d51c4a', '254b73c165d9020f2076dc5a74c24bc346e26a2b', '26b002aac1dd16944711b3be495a9e529dd68c20',
+      '27d1d882221cd4fa9f20ab0196ece4ea9a187762', '2a2e4b3bf8ba1c86d96fc2f5786597ad77a0e5e9', '32c2c5899135d02ad1d958500a0a76bca6e87cd0',
+      '33ad091d26d8a9dc95ebdf616e217d985ec215b8', '36b8ea79e40f62cf92b07542caeb93dbd541f0cb', '37224185490e6db2d26a574d66d4d476336bf644',
+      '39151635971623d05f6dceb375ce2fb7eaaa9886', '39b86cd6bc00bfc03339685e51b3f934ffbdbd5b', '39e7ab0fb31a1fc2798cc34eb071c2a234c01091',
+      '3a13f90a773b0facb675bf5b1a8239c8f33d36f5', '3f611f9181992bb71d4d26edf2a7fb4526e249bc', '3ff725108e7e7eea8b2e5b0964c82a9126764949',
+      '40c3d68096c270ef976f3db4e9eb42b05c7067bb', '40e027fbefc15026f37d0e7d8b37e9d8f6e532b1', '41b3b952cd90b877758c0a62fe91fb107a95174f',
+      '42fc323e4b835cde834aba978ce44ce65bf8fb71', '433c8aa7fd7326ea27e55ea52d384e84e7164fc8', '4678774e6d606704bce1897a5dab960cd798bf66',
+      '48fc8572c486451d4d3286b14b318773abfcb563', '4c18fb3b42b99a44a914a94b92d37768f22148c4', '4f11a03dc6cc37f2b5105c08f2e7b24c603ab2f4',
+      '4f3cc28d3a821aff60b42ca9f4b47cf3a63ac50d', '5174b28c565c285e3e312ec5178be64fbeca8398', '52bd15ee7f8abf337c0c35b226f98d803d61111d',
+      '54e8bf3e2a29015a45e11cdc279e06b459890d8b', '567f17b0d7c7fb662c16d4357dd74830caf2dccb', '58c71af9ec13c1e6fc9aece1dedc7b3bc92c0fc9',
+      '58d5c02d61280c45a6968c9a3df7f5db17ba3fdf', '5c2378c0afc747fd1271a4a38d8f9aa1015faf9f', '5d98b1e5a03688320b6380aa2f7ec9aa89dd8996',
+      '5ef6a520780202a1d6addd833d800ccb1ecac0bb', '5fe5d87daf28003da539695ccdd1fb28727a93d5', '61e36849cf7cfa9f1f71b4a3964a4953e3e243d3',
+      '62539dda425523687dfe68d85f885348664a2207', '628a7334c84a5fbd0ce6780d4ba56515596fcc47', '649790e5da07797f4fb401d642c05ab389e1e2b3',
+      '6676d2c66b7875aa58a08a6b9276680349c69078', '66bb426ffe6ec9f5d829fccff91afcf9f2d16810', '66c5e125e6b963c25f6a00ea6593fa7062ad3bc3',
+      '670224f3e9c047c43478abdb875a9fe2dbba81be', '6bf3785b3777e513362c5381168ff21575073706', '6dcb9034239bc38eb55aeb978b4b09f23781f574',
+      '718d6fea4835ec2d246af9800eddb7ffb276240c', '719cea2b59f3222f4830a756100e1f756b8a18af', '756fcce4af9b0702da8027635a235f9f5eed6772',
+      '767719fc4fba59345ae29e29159c9aff270f5819', '77053960334e2e34dc584dea8019925c3b4ccca9', '7a8286b5768f7dc45c6045614cdef5f7b3a1b8a9',
+      '7b8e4f942f8ffbb135f2500b15101567332f25d5', '7bf337d3342562c52bd3c895d39bc5cd3d94beb1', '7f0afc267b23f6538f10da42db3bde7d3e749319',
+      '801ec13ab1d1aa838e02be81f1efea0cb1124a78', '816efe33a84a43f7ed3d395a3fb53e626ad3a79b', '821f712283060f14e3328337975b1987d865f7b9',
+      '830fb594ca2970a827555c28a253b097367e08d8', '846c0bc06971546c0eb7832282c3bb1b51d29117', '8777267507c0eed1d543499a9dca179da99edc16',
+      '89e040a1acb8a4c7b419313576c13b76d2aba3a7', '8a460419f91fba9fe68b3fc81c3811a009f8c5fc', '8c4d1b21f11f2a8909c644a8a818e99597963450',
+      '8d04cec62e71ebaa071e6189015f6e349641bc2a', '8f322f0d8f49570a594b865ef8916c428a01afc1', '90fe305414f8a858af41c0dd3d6dc9bf35329ca0',
+      '956fa84e0cd701ef7bb86cd6642dd05d5bbff402', '957e71fe5b5230589a2b12a4f0b4761efbbb9675', '9800bf8dde1c4ef9a17a143eb622b4d56a089226',
+      '9852c15349db239dd8a0712ffa70eccb731c9c88', '9c891d210cdc0d919e050a331cbd410a5af53414', '9edff1c7cacb3bfac9a1eadcf6f51eaa99565e38',
+      'a11c8f317488813491b465830a551b88562859b6', 'a26cce9e0e974ec6479958bc7ae2d7950e44b047', 'a2dc41ecee5ec435200fe7cba2bde4107f823774',
+      'a36cde01c60b91e16e4c976d00546686e2d4e470', 'a45d7e1b56adc1140c2736a48ec92a6f7ea205c6', 'a4a7b3f5cfa2f97534b4aa6588e12bd0b5df180b',
+      'a55b51b6d7022366308a4527b88f50993bd70531', 'a75ac5248816faee3e4ae1bf1447898bdfe17450', 'a7a790fba51faae66a4b09308c6988a116ea0734',
+      'a7d4b165b44313cdc7aac790908f347cafccdb5f', 'a843cbee09afaadbf9c8dd1477dcccf7eb56af50', 'a9c3e29c04351846dc14a8c95de2ef55c1e7bae4',
+      'ad4ee11334d56056fb5c0b225f1950ffaee43877', 'ada8e19417d67a4662c1f64c42f0123434b47037', 'aee21e9afabdf82f7bab84f49cedc076f49f1504',
+      'af99692719e72e11241f0e9c9fe8838b86867098', 'b108e1a2e4d4f3a9aecf15c5c56fa2f9bfaedf12', 'b2b2a44f6ebc70c450043c05a002e7a93ba5d651',
+      'b2fff8b4262dde3178afed021bb634b1379cd125', 'b76a1de0a092f716136847e33d53ccdbfaab0d08', 'b95c3ed488adc8e40bf5f680129ac4f169696afa',
+      'b97e52fc9afaba6ed087f434dd3b93930c87a830', 'bffb357a7122523ec94045523758c4b825b448ef', 'c08ab2fc3c5d1219bfca2b23abebaf27f252a7f6',
+      'c3e5e1d5c0c89b623feb9c31ef38449e1e7c3d89', 'c4033664f80d3cb9cb687fb5facbc82aedb302f6', 'c7146963787144d4861e149d8d233049b7daefc7',
+      'c7bcb4b1ee14cd5e25078c2c934529afdd2a7df9', 'c7ead804652ebfb1e07a5acb03880d553a7da011', 'c887311c6a3904ef8b109f67effd5cad7def8b04',
+      'd2f84222734f27b623d1c80dda3561b04d1284af', 'd32cc78b89fc9af2b1caf304864e10f041df05e6', 'd3f2c8094822fa969ff403ebc347c33da3993b90',
+      'd43da912d03f9355f1cf2a863c83d092d9b82797', 'd4f491e152dd0aaca7ba3ffd87ed3300955a3620', 'd5456a15d4ad2df165faab41c8ec8348e5d031f6',
+      'd7d5066290e7a5bfea95ebca2e883af53156057e', 'd8b93235f205efbea6e8fceb1c9ddb57ddddf28d', 'dbc1ecabbb01ba08f6abf750183b85700d276a59',
+      'dca06aee77143fbbf6668760a6b8ca3b50bbf84d', 'df5d042428aa0b51ed9c05e9ddf30727af72eb51', 'df63de88fa67cb006e692cc789caea580ba3697e',
+      'e215bc4ccf138bbc38ad58ad57e92135484b3c0f', 'e3734be15e1f6fbb4b207761c8e424b77cf3a4eb', 'e41b55c4fb46f161109e666dcc56854a6b6ef2db',
+      'e516b3a2650e67b488e665c33a1b58b6b5defa97', 'e7ff90fd2767199e09b281bfa87e08a90f33270e', 'e9a4b5a9311a90b85baf56a4d3331bc28b54d228',
+      'e9ffa3083ad279ecf95fd8eae59cb253e9a539c4', 'ea77e8f35b382235eb086e017e79f23ab5fb63ee', 'eb8aec4611422a5cd05dbcdbc5689128e3a68613',
+      'ef0e47e31fa3d9a98a08c25c494309fe759bc0f7', 'f049c39a97ba340727b454bfc44b41b665febf7d', 'f06471ae3a82bd678fe6640b5782bb3f166efaf9',
+      'f2ae185cbfd16946a534d819e9eb03924abbcc49', 'f443835250120454b0aeb11c2f3e1f445047b3ec', 'f58d37cdf1966f4a3207982a6c2d97a2d91272de',
+      'f73f4163bb47fad6c1c13a91a47cd09a72573d74', 'f77cf2fcf4ac83002d986466af649e17921f18c6', 'f7dce66ebbb887308046c4e6e982d0f3f1c1f8b9',
+      'f7fa87eb875260ed98651bc419c8139b5119e554', 'f8bcc7e5caed177cb9ecfa7c02bc9a854b8ad1ff', 'fd3dbb571a12a1c3baf000db049e141c888d05a8',
+      'fd81e885836d815b8019694a910a93d86a43cb66',
+    ],
+  },
+  {
+    id: 'cargo',
+    name: 'Cargo',
+    shape: ['Cargo.toml', 'src/main.rs', 'src/lib.rs'],
+    minShapeMatches: 2,
+    fingerprints: [
+      '1b4a90c938387450422982a89aed075aa1e8c010', '7d12d9af8195bf5e19d10c7b592b359ccd014149', 'b93cf3ffd9cc9c59f584a92d7bd1459d5521ef4e',
+      'e7a11a969c037e00a796aafeff6258501ec15e9a',
+    ],
+  },
+  {
+    id: 'django',
+    name: 'Django',
+    shape: ['manage.py', '*/settings.py', '*/urls.py', '*/wsgi.py', '*/asgi.py'],
+    minShapeMatches: 4,
+    fingerprints: [
+      '71a836239075aa6e6e4ecb700e9c42c95c022d91', '7ce503c2dd97ba78597f6ff6e4393132753573f6', '8c38f3f3dad51e4585f3984282c2a4bec5349c1e',
+      '91ea44a218fbd2f408430959283f0419c921093e',
+    ],
+  },
+]
+
+export interface TemplateMatch {
+  id: string
+  name: string
+  root: string
+  verbatimFiles: number
+  scaffoldFiles: number
+}
+
+const COMPILED_SHAPES = TEMPLATES.map((template) => ({
+  template,
+  patterns: template.shape.map((pattern) => ({ pattern, segments: pattern.split('/').map(globSegment) })),
+}))
+
+const FINGERPRINT_TEMPLATE = new Map<string, TemplateSpec>()
+for (const template of TEMPLATES) {
+  for (const sha of template.fingerprints) FINGERPRINT_TEMPLATE.set(sha, template)
+}
+
+// Files byte-identical to template output carry no authorship signal; files that merely sit in
+// a template's layout still hold real code, so only their shape is discounted. Layouts like a
+// Cargo crate or a Vite app are common to every project of that kind, so a shape only counts
+// when at least one file under it is verbatim generator output.
+export function matchKnownTemplates(files: FileNode[]): {
+  templates: TemplateMatch[]
+  verbatimPaths: Set<string>
+  scaffoldPaths: Set<string>
+} {
+  const verbatim = new Map<string, Set<string>>()
+  const shapes = new Map<string, { template: TemplateSpec; root: string; patterns: Set<string>; paths: Set<string> }>()
+
+  for (const file of files) {
+    if (file.type !== 'file') continue
+    const fingerprinted = file.sha ? FINGERPRINT_TEMPLATE.get(file.sha) : undefined
+    if (fingerprinted) {
+      const paths = verbatim.get(fingerprinted.id) ?? new Set<string>()
+      paths.add(file.path)
+      verbatim.set(fingerprinted.id, paths)
+    }
+
+    const segments = file.path.split('/')
+    for (const { template, patterns } of COMPILED_SHAPES) {
+      for (const { pattern, segments: patternSegments } of patterns) {
+        if (patternSegments.length > segments.length) continue
+        const tail = segments.slice(segments.length - patternSegments.length)
+        if (!patternSegments.every((segment, index) => segment.test(tail[index]))) continue
+        const root = segments.slice(0, segments.length - patternSegments.length).join('/')
+        const key = `${template.id}:${root}`
+        const entry = shapes.get(key) ?? { template, root, patterns: new Set<string>(), paths: new Set<string>() }
+        entry.patterns.add(pattern)
+        entry.paths.add(file.path)
+        shapes.set(key, entry)
+      }
+    }
+  }
+
+  const verbatimPaths = new Set<string>()
+  const scaffoldPaths = new Set<string>()
+  const templates: TemplateMatch[] = []
+  for (const entry of shapes.values()) {
+    if (entry.patterns.size < entry.template.minShapeMatches) continue
+    const prefix = entry.root ? `${entry.root}/` : ''
+    const matchedVerbatim = [...(verbatim.get(entry.template.id) ?? [])].filter((path) => path.startsWith(prefix))
+    if (matchedVerbatim.length === 0) continue
+    matchedVerbatim.forEach((path) => verbatimPaths.add(path))
+    entry.paths.forEach((path) => scaffoldPaths.add(path))
+    templates.push({
+      id: entry.template.id,
+      name: entry.template.name,
+      root: entry.root,
+      verbatimFiles: matchedVerbatim.length,
+      scaffoldFiles: entry.paths.size,
+    })
+  }
+
+  // Verbatim template files count even when the surrounding layout has been reorganised.
+  for (const [id, paths] of verbatim.entries()) {
+    if (paths.size < 2 || templates.some((template) => template.id === id)) continue
+    const template = TEMPLATES.find((entry) => entry.id === id)
+    if (!template) continue
+    paths.forEach((path) => verbatimPaths.add(path))
+    templates.push({ id, name: template.name, root: '', verbatimFiles: paths.size, scaffoldFiles: 0 })
+  }
+
+  return { templates, verbatimPaths, scaffoldPaths }
+}
+
+function globSegment(segment: string): RegExp {
+  return new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')}$`)
+}
@@ -1,11 +1,20 @@
+import type { RulePack } from './rules'
+import type { ForgeHost, RepoHost } from './hosts'
+
 export interface RepoAnalysis {
   repoId: string
   repoName: string
+  host?: RepoHost
   slopScore: number
   confidence: AnalysisConfidence
   stage: AnalysisStage
   semantics: 'likelihood'
   indicators: SlopIndicator[]
+  files: FileAnalysis[]
+  authors: AuthorBreakdown[]
+  tools: ToolAttribution[]
+  pullRequest?: PullRequestSummary
+  quality?: QualitySummary
   scoreBreakdown: ScoreBreakdown
   diagnostics: AnalysisDiagnostics
   cache: {
@@ -15,6 +24,45 @@ export interface RepoAnalysis {
   timestamp: number
 }
 
+export interface AuthorBreakdown {
+  author: string
+  commits: number
+  aiCommits: number
+  burstCommits: number
+  aiShare: number
+  burstShare: number
+}
+
+export interface ToolAttribution {
+  tool: string
+  name: string
+  confidence: AnalysisConfidence
+  usage: string[]
+  evidence: ToolEvidence[]
+}
+
+export interface ToolEvidence {
+  kind: 'path' | 'content' | 'commit'
+  detail: string
+  path?: string
+}
+
+export interface PullRequestSummary {
+  number: number
+  title: string
+  headSha: string
+  changedFiles: number
+  additions: number
+  deletions: number
+}
+
+// Tracked apart from the slop score: stubs are a quality problem whoever wrote them.
+export interface QualitySummary {
+  score: number
+  stubMatches: number
+  stubFiles: string[]
+}
+
 export type AnalysisStage = 'provisional' | 'final'
 export type AnalysisConfidence = 'low' | 'medium' | 'high'
 
@@ -24,6 +72,24 @@ export interface SlopIndicator {
   type: string
   description: string
   severity: SlopIndicatorSeverity
+  files?: string[]
+  // Catalog rule IDs that matched, or the detector id for computed heuristics.
+  ruleIds?: string[]
+}
+
+export interface FileAnalysis {
+  path: string
+  score: number
+  commentSignal: number
+  matchedCommentLines: number
+  codePatternMatches: number
+  similarity: number
+}
+
+export interface SimilarFilePair {
+  a: string
+  b: string
+  similarity: number
 }
 
 export interface SlopScore {
@@ -32,6 +98,9 @@ export interface SlopScore {
   confidence: AnalysisConfidence
   evidenceStrength: number
   contributions: FeatureContribution[]
+  modelVersion: string
+  // Scaled feature vector the model saw; recorded so labelled scans can be refit offline.
+  modelInputs: Record<string, number>
 }
 
 export interface ScoreBreakdown {
@@ -59,9 +128,36 @@ export interface AnalysisDiagnostics {
   }
   requestCount: number
   sampledFiles: number
+  commitSampling?: CommitSampling
+  excludedFiles?: ExclusionCounts
+  detectorVersions?: Record<string, number>
+  ruleCatalogVersion?: string
+  notes?: string[]
   featureValues: Record<string, number>
   scoreContributions: FeatureContribution[]
   evidenceStrength: number
+  modelVersion?: string
+  modelInputs?: Record<string, number>
+  // First commit of the post-2022 style shift, when the era-shift detector found one.
+  styleShiftOnset?: string
+}
+
+// Non-numeric findings a detector reports alongside its feature values.
+export type DetectorDiagnostics = Pick<AnalysisDiagnostics, 'styleShiftOnset'>
+
+export interface ExclusionCounts {
+  generated: number
+  vendored: number
+  lockfile: number
+  ignored: number
+}
+
+export interface CommitSampling {
+  commits: number
+  pagesFetched: number
+  totalPages: number
+  oldestCommitDate?: string
+  newestCommitDate?: string
 }
 
 export interface FileNode {
@@ -69,12 +165,19 @@ export interface FileNode {
   path: string
   type: 'file' | 'dir'
   url?: string
+  sha?: string
 }
 
 export interface Settings {
   githubToken?: string
   autoAnalyze: boolean
   darkMode: boolean
+  commitPageBudget: number
+  rulePacks: RulePack[]
+  // Keep every API response of the latest scan so it can be exported and replayed.
+  recordScans: boolean
+  // Self-managed forges, plus tokens for built-in hosts other than github.com.
+  forgeHosts: ForgeHost[]
 }
 
 export interface GitHubCommit {
@@ -82,22 +185,42 @@ export interface GitHubCommit {
   commit: {
     message: string
     author: {
+      name?: string
+      email?: string
       date: string
     }
   }
+  author?: {
+    login: string
+  } | null
+  parents?: Array<{ sha: string }>
+  stats?: {
+    additions: number
+    deletions: number
+    total: number
+  }
   files?: GitHubFile[]
 }
 
+export interface CommitHistory {
+  commits: GitHubCommit[]
+  segmentStarts: string[]
+  pagesFetched: number
+  totalPages: number
+}
+
 export interface GitHubFile {
   filename: string
   additions: number
   deletions: number
   status: string
+  patch?: string
 }
 
 export interface GitHubTreeItem {
   path: string
   type: string
+  sha: string
   url: string
 }
 
@@ -109,6 +232,22 @@ export interface GitHubRepo {
   stargazers_count?: number
 }
 
+export interface GitHubPullRequest {
+  number: number
+  title: string
+  state: string
+  additions?: number
+  deletions?: number
+  changed_files?: number
+  head: {
+    sha: string
+    ref: string
+  }
+  base: {
+    ref: string
+  }
+}
+
 export interface RepoContext {
   owner: string
   repo: string
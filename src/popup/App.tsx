@@ -1,13 +1,22 @@
 import { useEffect, useMemo, useState, type SVGProps } from 'react'
 import { ScoreGauge } from '@/components/ScoreGauge'
 import { SlopBadge } from '@/components/SlopBadge'
-import { clearAnalysisCache, getSettings } from '@/lib/storage'
+import { clearAnalysisCache, DEFAULT_COMMIT_PAGE_BUDGET, getRecording, getSettings, saveForgeHosts, saveRulePacks } from '@/lib/storage'
+import { parseRulePack } from '@/lib/rules'
+import { DEFAULT_MODEL } from '@/lib/model'
+import { fileWebUrl, findHost, hostPermissionPattern, isBuiltinHost, normalizeOrigin, parseRepoLocation, type ForgeKind } from '@/lib/hosts'
 import type { RepoAnalysis, Settings } from '@/lib/types'
 import { Activity, ChevronLeft, Sparkles } from 'lucide-react'
 
 type View = 'main' | 'settings' | 'analysis'
 type BannerTone = 'error' | 'warning' | 'info'
 
+const INSTANCE_KINDS: Array<{ kind: ForgeKind; label: string }> = [
+  { kind: 'github', label: 'GitHub Enterprise' },
+  { kind: 'gitlab', label: 'GitLab' },
+  { kind: 'gitea', label: 'Gitea / Forgejo' },
+]
+
 interface BannerState {
   message: string
   tone: BannerTone
@@ -15,8 +24,11 @@ interface BannerState {
 
 function App() {
   const [view, setView] = useState<View>('main')
-  const [settings, setSettings] = useState<Settings>({ autoAnalyze: false, darkMode: false })
+  const [settings, setSettings] = useState<Settings>({ autoAnalyze: false, darkMode: false, commitPageBudget: DEFAULT_COMMIT_PAGE_BUDGET, rulePacks: [], recordScans: false, forgeHosts: [] })
   const [token, setToken] = useState('')
+  const [hostUrl, setHostUrl] = useState('')
+  const [hostToken, setHostToken] = useState('')
+  const [hostKind, setHostKind] = useState<ForgeKind>('gitlab')
   const [analysis, setAnalysis] = useState<RepoAnalysis | null>(null)
   const [loading, setLoading] = useState(false)
   const [banner, setBanner] = useState<BannerState | null>(null)
@@ -58,6 +70,12 @@ function App() {
   }
 
   async function handleSaveSettings() {
+    const previous = await getSettings()
+    const droppedOrigins = previous.forgeHosts
+      .filter((host) => !isBuiltinHost(host.origin) && !settings.forgeHosts.some((kept) => kept.origin === host.origin))
+      .map((host) => hostPermissionPattern(host.origin))
+    if (droppedOrigins.length > 0) await chrome.permissions.remove({ origins: droppedOrigins })
+
     await chrome.storage.local.set({
       'ai-slop-meter-settings': {
         ...settings,
@@ -68,6 +86,59 @@ function App() {
     setView('main')
   }
 
+  async function handleAddHost() {
+    const origin = normalizeOrigin(hostUrl)
+    if (!origin) {
+      setBanner({ tone: 'error', message: 'HOST REJECTED: NOT A URL.' })
+      return
+    }
+
+    // Stored before the prompt because the popup can close while Chrome shows it; the background
+    // registers the content script once the grant arrives. Not awaited: the request must stay inside the click.
+    const forgeHosts = [...settings.forgeHosts.filter((host) => host.origin !== origin), { kind: hostKind, origin, token: hostToken || undefined }]
+    const saved = saveForgeHosts(forgeHosts)
+    const granted = await chrome.permissions.request({ origins: [hostPermissionPattern(origin)] })
+    await saved
+    if (!granted) {
+      await saveForgeHosts(settings.forgeHosts)
+      setBanner({ tone: 'warning', message: 'HOST ACCESS DENIED.' })
+      return
+    }
+
+    setSettings({ ...settings, forgeHosts })
+    setHostUrl('')
+    setHostToken('')
+    setBanner({ tone: 'info', message: `${new URL(origin).host.toUpperCase()} ADDED.` })
+  }
+
+  async function handleImportRulePack(file: File) {
+    try {
+      const pack = parseRulePack(await file.text())
+      const rulePacks = [...settings.rulePacks.filter((existing) => existing.id !== pack.id), pack]
+      // Stored right away: the file picker can close the popup before the settings are saved.
+      await saveRulePacks(rulePacks)
+      setSettings({ ...settings, rulePacks })
+      setBanner({ tone: 'info', message: `RULE PACK ${pack.id.toUpperCase()} LOADED.` })
+    } catch (error) {
+      setBanner({ tone: 'error', message: `RULE PACK REJECTED: ${error instanceof Error ? error.message : 'unreadable file'}` })
+    }
+  }
+
+  async function handleExportRecording() {
+    if (!analysis) return
+    const recording = await getRecording(analysis.repoId)
+    if (!recording) {
+      setBanner({ tone: 'warning', message: 'NO RECORDING FOR THIS CASE. RESCAN WITH RECORDING ON.' })
+      return
+    }
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${analysis.repoId.replace(/[/#]/g, '-')}.recording.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
   async function handleClearCache() {
     setClearingCache(true)
     try {
@@ -86,26 +157,27 @@ function App() {
 
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
-      if (!tab.url || !tab.url.includes('github.com')) {
-        setBanner({ tone: 'warning', message: 'ERROR: NOT GITHUB.' })
+      const url = tab.url ? new URL(tab.url) : null
+      const host = url ? findHost(url.origin, settings.forgeHosts) : null
+      if (!url || !host) {
+        setBanner({ tone: 'warning', message: 'ERROR: UNKNOWN FORGE.' })
         setLoading(false)
         return
       }
 
-      const url = new URL(tab.url)
-      const pathParts = url.pathname.split('/').filter(Boolean)
-      if (pathParts.length < 2) {
+      const location = parseRepoLocation(host, url)
+      if (!location) {
         setBanner({ tone: 'warning', message: 'ERROR: REPO ROOT.' })
         setLoading(false)
         return
       }
 
-      const owner = pathParts[0]
-      const repo = pathParts[1]
-      const response = await chrome.runtime.sendMessage({
-        type: 'ANALYZE_REPO',
-        payload: { owner, repo, tabId: tab.id },
-      })
+      const { owner, repo, pullNumber } = location
+      const response = await chrome.runtime.sendMessage(
+        pullNumber !== undefined
+          ? { type: 'ANALYZE_PR', payload: { owner, repo, origin: url.origin, pullNumber } }
+          : { type: 'ANALYZE_REPO', payload: { owner, repo, origin: url.origin, tabId: tab.id } }
+      )
 
       if (!response.success) {
         setBanner(parseAnalysisError(response.error))
@@ -238,6 +310,17 @@ function App() {
                       className="w-full border-b-2 border-ink bg-transparent py-1 text-xs font-mono focus:outline-none focus:border-alert placeholder:opacity-20"
                     />
                   </div>
+                  <div className="flex items-center justify-between pt-2">
+                    <span className="text-xs font-bold uppercase">History Depth (Pages)</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={settings.commitPageBudget}
+                      className="w-14 border-b-2 border-ink bg-transparent py-0.5 text-right text-xs font-mono focus:outline-none focus:border-alert"
+                      onChange={(event) => setSettings({ ...settings, commitPageBudget: clampPageBudget(Number(event.target.value)) })}
+                    />
+                  </div>
                   <div className="flex items-center justify-between pt-2">
                     <span className="text-xs font-bold uppercase">Field Auto-Scan</span>
                     <input
@@ -247,6 +330,15 @@ function App() {
                       onChange={(event) => setSettings({ ...settings, autoAnalyze: event.target.checked })}
                     />
                   </div>
+                  <div className="flex items-center justify-between pt-2">
+                    <span className="text-xs font-bold uppercase">Record Evidence</span>
+                    <input
+                      type="checkbox"
+                      checked={settings.recordScans}
+                      className="accent-alert"
+                      onChange={(event) => setSettings({ ...settings, recordScans: event.target.checked })}
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -263,6 +355,90 @@ function App() {
                 </div>
               </div>
 
+              <div className="border-2 border-ink p-4 bg-paper-dark shadow-[4px_4px_0px_var(--color-ink)]">
+                <h3 className="text-xs font-bold uppercase mb-3">Rule Packs</h3>
+                <div className="space-y-2">
+                  {settings.rulePacks.length === 0 ? (
+                    <p className="text-[0.6rem] opacity-60">Core rules only.</p>
+                  ) : (
+                    settings.rulePacks.map((pack) => (
+                      <div key={pack.id} className="flex items-center justify-between text-[0.6rem] font-mono">
+                        <span className="truncate">{pack.id}@{pack.version} ({pack.rules.length} rules)</span>
+                        <button
+                          onClick={() => setSettings({ ...settings, rulePacks: settings.rulePacks.filter((existing) => existing.id !== pack.id) })}
+                          className="ml-2 text-alert font-bold uppercase"
+                        >
+                          Drop
+                        </button>
+                      </div>
+                    ))
+                  )}
+                  <label className="block w-full border-2 border-ink h-10 leading-9 text-center font-mono font-bold uppercase text-[0.65rem] cursor-pointer transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_var(--color-alert)]">
+                    Import Rule Pack
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0]
+                        if (file) void handleImportRulePack(file)
+                        event.target.value = ''
+                      }}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div className="border-2 border-ink p-4 bg-paper-dark shadow-[4px_4px_0px_var(--color-ink)]">
+                <h3 className="text-xs font-bold uppercase mb-3">Forge Instances</h3>
+                <div className="space-y-2">
+                  {settings.forgeHosts.length === 0 ? (
+                    <p className="text-[0.6rem] opacity-60">github.com, gitlab.com and codeberg.org only.</p>
+                  ) : (
+                    settings.forgeHosts.map((host) => (
+                      <div key={host.origin} className="flex items-center justify-between text-[0.6rem] font-mono">
+                        <span className="truncate">{new URL(host.origin).host} [{host.kind}]{host.token ? ' (token)' : ''}</span>
+                        <button
+                          onClick={() => setSettings({ ...settings, forgeHosts: settings.forgeHosts.filter((existing) => existing.origin !== host.origin) })}
+                          className="ml-2 text-alert font-bold uppercase"
+                        >
+                          Drop
+                        </button>
+                      </div>
+                    ))
+                  )}
+                  <select
+                    value={hostKind}
+                    onChange={(event) => setHostKind(event.target.value as ForgeKind)}
+                    className="w-full border-b-2 border-ink bg-transparent py-1 text-xs font-mono focus:outline-none focus:border-alert"
+                  >
+                    {INSTANCE_KINDS.map(({ kind, label }) => (
+                      <option key={kind} value={kind}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={hostUrl}
+                    onChange={(event) => setHostUrl(event.target.value)}
+                    placeholder="https://git.example.com"
+                    className="w-full border-b-2 border-ink bg-transparent py-1 text-xs font-mono focus:outline-none focus:border-alert placeholder:opacity-20"
+                  />
+                  <input
+                    type="password"
+                    value={hostToken}
+                    onChange={(event) => setHostToken(event.target.value)}
+                    placeholder="Access token (optional)"
+                    className="w-full border-b-2 border-ink bg-transparent py-1 text-xs font-mono focus:outline-none focus:border-alert placeholder:opacity-20"
+                  />
+                  <button
+                    onClick={handleAddHost}
+                    className="w-full border-2 border-ink h-10 font-mono font-bold uppercase text-[0.65rem] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_var(--color-alert)] active:translate-y-0 active:shadow-none"
+                  >
+                    Add Instance
+                  </button>
+                </div>
+              </div>
+
               <div className="border-2 border-ink p-4 bg-paper-dark shadow-[4px_4px_0px_var(--color-ink)]">
                 <h3 className="text-xs font-bold uppercase mb-3">Cache Maintenance</h3>
                 <button
@@ -270,7 +446,7 @@ function App() {
                   disabled={clearingCache}
                   className="w-full border-2 border-ink h-10 font-mono font-bold uppercase text-[0.65rem] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_var(--color-alert)] active:translate-y-0 active:shadow-none disabled:opacity-50"
                 >
-                  {clearingCache ? 'Purging...' : 'Clear Analysis Cache'}
+                  {clearingCache ? 'Purging...' : 'Clear Cache & Recordings'}
                 </button>
               </div>
             </div>
@@ -289,6 +465,11 @@ function App() {
                   <span>Dossier: {analysis.repoId.substring(0, 8)}</span>
                   <span>Date: {timestampLabel}</span>
                 </div>
+                {analysis.pullRequest ? (
+                  <div className="border-b border-dotted border-ink pb-1 text-[0.6rem] font-bold uppercase">
+                    PR #{analysis.pullRequest.number}: {analysis.pullRequest.title} (+{analysis.pullRequest.additions} / -{analysis.pullRequest.deletions}, {analysis.pullRequest.changedFiles} files)
+                  </div>
+                ) : null}
 
                 <div className="space-y-2">
                   <ScoreGauge score={analysis.slopScore} showLabel={false} />
@@ -299,6 +480,32 @@ function App() {
                     <div className="border-b border-dotted border-ink pb-1 text-right">Cache: {analysis.cache.isCached ? 'Hit' : 'Live'}</div>
                     <div className="border-b border-dotted border-ink pb-1">Samples: {analysis.diagnostics.sampledFiles}</div>
                     <div className="border-b border-dotted border-ink pb-1 text-right">Req: {analysis.diagnostics.requestCount}</div>
+                    {analysis.diagnostics.modelVersion ? (
+                      <div className="col-span-2 border-b border-dotted border-ink pb-1">
+                        Model: {analysis.diagnostics.modelVersion}
+                        {analysis.diagnostics.modelVersion === DEFAULT_MODEL.modelVersion && !DEFAULT_MODEL.fittedOn ? ' · uncalibrated' : ''}
+                      </div>
+                    ) : null}
+                    {analysis.quality ? (
+                      <div className={`col-span-2 border-b border-dotted border-ink pb-1 ${analysis.quality.score >= 50 ? 'text-alert' : ''}`}>
+                        Stub Risk: {analysis.quality.score}% · {analysis.quality.stubMatches} placeholder{analysis.quality.stubMatches === 1 ? '' : 's'} in {analysis.quality.stubFiles.length} file{analysis.quality.stubFiles.length === 1 ? '' : 's'}
+                      </div>
+                    ) : null}
+                    {analysis.diagnostics.excludedFiles ? (
+                      <div className="col-span-2 border-b border-dotted border-ink pb-1">
+                        Excluded: {analysis.diagnostics.excludedFiles.vendored} vendored · {analysis.diagnostics.excludedFiles.generated} generated · {analysis.diagnostics.excludedFiles.lockfile} lock · {analysis.diagnostics.excludedFiles.ignored} ignored
+                      </div>
+                    ) : null}
+                    {analysis.diagnostics.notes?.map((note) => (
+                      <div key={note} className="col-span-2 border-b border-dotted border-ink pb-1 normal-case opacity-70">
+                        {note}
+                      </div>
+                    ))}
+                    {analysis.diagnostics.commitSampling ? (
+                      <div className="col-span-2 border-b border-dotted border-ink pb-1">
+                        History: {analysis.diagnostics.commitSampling.commits} commits · {analysis.diagnostics.commitSampling.pagesFetched}/{analysis.diagnostics.commitSampling.totalPages} pages · {formatDay(analysis.diagnostics.commitSampling.oldestCommitDate)} → {formatDay(analysis.diagnostics.commitSampling.newestCommitDate)}
+                      </div>
+                    ) : null}
                   </div>
                 </div>
               </div>
@@ -312,12 +519,64 @@ function App() {
                         <span className="text-[0.65rem] font-bold uppercase">{contribution.feature}</span>
                         <span className="text-[0.55rem] leading-none opacity-40 group-hover:opacity-100 transition-opacity italic">{contribution.notes}</span>
                       </div>
-                      <span className="text-xs font-bold text-alert text-right">+{contribution.contribution}%</span>
+                      <span className="text-xs font-bold text-alert text-right">{contribution.contribution >= 0 ? '+' : ''}{contribution.contribution}%</span>
                     </div>
                   ))}
                 </div>
               </div>
 
+              {analysis.tools && analysis.tools.length > 0 ? (
+                <div className="space-y-3">
+                  <h3 className="text-[0.65rem] font-black uppercase tracking-widest bg-ink text-paper px-2 py-0.5 inline-block">Tools of the Trade</h3>
+                  <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                    {analysis.tools.map((tool) => (
+                      <div key={tool.tool} className="border-b border-dotted border-ink pb-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-[0.65rem] font-bold uppercase truncate">{tool.name}</span>
+                          <span className={`text-[0.55rem] font-bold uppercase ${tool.confidence === 'high' ? 'text-alert' : tool.confidence === 'medium' ? 'text-amber-700' : 'text-blue-ink'}`}>
+                            {tool.confidence}
+                          </span>
+                        </div>
+                        {tool.usage.length > 0 ? (
+                          <p className="text-[0.55rem] leading-tight opacity-80">{tool.usage.join(' · ')}</p>
+                        ) : null}
+                        <ul className="text-[0.55rem] leading-tight opacity-60 font-mono">
+                          {tool.evidence.slice(0, 3).map((evidence) => (
+                            <li key={`${evidence.kind}-${evidence.detail}`} className="truncate">
+                              {evidence.kind}: {evidence.path ? (
+                                <a href={fileUrl(analysis, evidence.path)} target="_blank" rel="noreferrer" className="underline">{evidence.detail}</a>
+                              ) : evidence.detail}
+                            </li>
+                          ))}
+                          {tool.evidence.length > 3 ? <li>+{tool.evidence.length - 3} more</li> : null}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              {analysis.authors && analysis.authors.length > 0 ? (
+                <div className="space-y-3">
+                  <h3 className="text-[0.65rem] font-black uppercase tracking-widest bg-ink text-paper px-2 py-0.5 inline-block">Suspects</h3>
+                  <div className="max-h-32 overflow-y-auto space-y-1 pr-1">
+                    {analysis.authors.slice(0, 10).map((author) => (
+                      <div key={author.author} className="grid grid-cols-[1fr_auto] gap-2 border-b border-dotted border-ink pb-1">
+                        <div className="flex flex-col">
+                          <span className="text-[0.65rem] font-bold uppercase truncate">{author.author}</span>
+                          <span className="text-[0.55rem] leading-none opacity-60">
+                            {author.commits} commit{author.commits === 1 ? '' : 's'} · burst {Math.round(author.burstShare * 100)}%
+                          </span>
+                        </div>
+                        <span className={`text-xs font-bold text-right ${author.aiShare > 0 ? 'text-alert' : 'opacity-40'}`}>
+                          {Math.round(author.aiShare * 100)}% AI
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
               <div className="space-y-3">
                 <h3 className="text-[0.65rem] font-black uppercase tracking-widest bg-ink text-paper px-2 py-0.5 inline-block">Detected Indicators</h3>
                 <div className="max-h-40 overflow-y-auto space-y-2 pr-1">
@@ -335,12 +594,33 @@ function App() {
                           </span>
                         </div>
                         <p className="mt-1 text-[0.6rem] leading-tight opacity-80">{indicator.description}</p>
+                        {indicator.ruleIds && indicator.ruleIds.length > 0 ? (
+                          <p className="mt-1 text-[0.5rem] font-mono opacity-50 truncate">{indicator.ruleIds.join(' · ')}</p>
+                        ) : null}
+                        {indicator.files && indicator.files.length > 0 ? (
+                          <div className="mt-1 flex flex-wrap gap-x-2 text-[0.55rem] font-mono">
+                            {indicator.files.map((path) => (
+                              <a key={path} href={fileUrl(analysis, path)} target="_blank" rel="noreferrer" className="text-blue-ink underline truncate max-w-full">
+                                {path}
+                              </a>
+                            ))}
+                          </div>
+                        ) : null}
                       </div>
                     ))
                   )}
                 </div>
               </div>
 
+              {settings.recordScans ? (
+                <button
+                  onClick={handleExportRecording}
+                  className="w-full border-2 border-ink h-10 font-mono font-bold uppercase text-[0.65rem] transition-all hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_var(--color-alert)] active:translate-y-0 active:shadow-none"
+                >
+                  Export Recording
+                </button>
+              ) : null}
+
               <div style={{ fontStyle: 'italic', fontSize: '0.7rem', color: 'var(--color-blue-ink)', transform: 'rotate(-2deg)', opacity: 0.7 }} className="pt-2 font-serif">
                  "Syntax looks rigid. Probable LLM garbage."
               </div>
@@ -366,6 +646,21 @@ function bannerClassName(tone: BannerTone): string {
   return 'mb-4 text-xs font-bold text-blue-ink'
 }
 
+function clampPageBudget(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_COMMIT_PAGE_BUDGET
+  return Math.min(Math.max(Math.round(value), 1), 20)
+}
+
+function fileUrl(analysis: RepoAnalysis, path: string): string {
+  const [project] = analysis.repoName.split(' #')
+  return fileWebUrl(analysis.host, project, path)
+}
+
+function formatDay(value?: string): string {
+  if (!value) return '?'
+  return value.slice(0, 10)
+}
+
 function parseAnalysisError(error?: string): BannerState {
   if (!error) return { tone: 'error', message: 'ANALYSIS FAILED.' }
   if (error.startsWith('RATE_LIMIT:')) {